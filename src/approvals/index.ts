@@ -0,0 +1,152 @@
+import { ethers } from "ethers";
+import { ERC20_ABI, type TokenInfo } from "../tokens";
+
+// 已知的授权对象，例如 DEX 路由合约
+export interface KnownSpender {
+	address: string;
+	label?: string;
+}
+
+export interface ApprovalsConfig {
+	spenders?: Record<string, KnownSpender[]>; // 按 chainId 分组，扫描时会逐个查询额度
+	scanLogs?: boolean; // 是否从 Approval 事件中查找授权对象，默认 true
+	// 向前扫描 Approval 事件的区块数，默认 50000（以太坊主网约一周）；
+	// 更早的授权只有在 spenders 中列出时才能查到，设为 Infinity 从创世区块开始扫描
+	lookbackBlocks?: number;
+	logChunkSize?: number; // 单次 eth_getLogs 的区块范围，默认 10000，公共 RPC 通常有限制
+	// 额度不为 0 时不允许直接改为另一个非 0 值的代币（例如 USDT），按 chainId 分组，会与内置列表合并
+	zeroFirstTokens?: Record<string, string[]>;
+}
+
+// 一条未清零的授权
+export interface ApprovalEntry {
+	id: string; // 小写的 代币地址:授权对象
+	token: TokenInfo;
+	spender: string;
+	spenderLabel: string | null;
+	allowance: bigint;
+	formatted: string; // 按代币精度格式化
+	isUnlimited: boolean;
+}
+
+export interface ScanApprovalsOptions extends ApprovalsConfig {
+	chainId: string;
+}
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+const APPROVAL_TOPIC = erc20Interface.getEvent("Approval")!.topicHash;
+
+export const DEFAULT_LOOKBACK_BLOCKS = 50000;
+
+// 内置的需要先清零再修改额度的代币
+const ZERO_FIRST_TOKENS: Record<string, string[]> = {
+	"0x1": ["0xdAC17F958D2ee523a2206206994597C13D831ec7"], // USDT
+};
+
+// 把额度从非 0 改为另一个非 0 值前是否需要先授权 0
+export const requiresZeroFirst = (chainId: string, token: string, config: ApprovalsConfig = {}) => {
+	const key = chainId.toLowerCase();
+	const addresses = [...(ZERO_FIRST_TOKENS[key] ?? []), ...(config.zeroFirstTokens?.[chainId] ?? config.zeroFirstTokens?.[key] ?? [])];
+	return addresses.some(address => address.toLowerCase() === token.toLowerCase());
+};
+
+// 部分代币在 transferFrom 时会扣减无限额度，超过 uint256 最大值的一半即视为无限授权
+const UNLIMITED_THRESHOLD = ethers.MaxUint256 / 2n;
+
+export const isUnlimitedAllowance = (allowance: bigint) => allowance >= UNLIMITED_THRESHOLD;
+
+// 从 Approval 事件中找出 owner 授权过的 代币-授权对象 组合，按区块分段查询
+const findApprovalPairs = async (
+	provider: ethers.Provider,
+	owner: string,
+	tokens: TokenInfo[],
+	lookbackBlocks: number,
+	chunkSize: number,
+) => {
+	const pairs = new Set<string>();
+	if (tokens.length === 0) return pairs;
+
+	const latest = await provider.getBlockNumber();
+	const start = Math.max(0, latest - lookbackBlocks);
+	for (let fromBlock = start; fromBlock <= latest; fromBlock += chunkSize) {
+		const logs = await provider.getLogs({
+			address: tokens.map(token => token.address),
+			topics: [APPROVAL_TOPIC, ethers.zeroPadValue(owner, 32)],
+			fromBlock,
+			toBlock: Math.min(fromBlock + chunkSize - 1, latest),
+		});
+		for (const log of logs) {
+			const spender = ethers.getAddress(ethers.dataSlice(log.topics[2], 12));
+			pairs.add(`${log.address.toLowerCase()}:${spender.toLowerCase()}`);
+		}
+	}
+	return pairs;
+};
+
+// 查询 owner 在各代币上的未清零授权，事件扫描失败时只使用已知的授权对象
+export const scanApprovals = async (
+	provider: ethers.Provider,
+	owner: string,
+	tokens: TokenInfo[],
+	options: ScanApprovalsOptions,
+): Promise<ApprovalEntry[]> => {
+	const { chainId, spenders = {}, scanLogs = true, lookbackBlocks = DEFAULT_LOOKBACK_BLOCKS, logChunkSize = 10000 } = options;
+	const known = spenders[chainId] ?? [];
+	const labels = new Map(known.map(spender => [spender.address.toLowerCase(), spender.label ?? null]));
+
+	const pairs = new Set<string>();
+	for (const token of tokens) {
+		for (const spender of known) {
+			pairs.add(`${token.address.toLowerCase()}:${spender.address.toLowerCase()}`);
+		}
+	}
+	if (scanLogs) {
+		try {
+			const found = await findApprovalPairs(provider, owner, tokens, lookbackBlocks, logChunkSize);
+			found.forEach(pair => pairs.add(pair));
+		} catch (error) {
+			console.error("扫描 Approval 事件失败:", error);
+			if (known.length === 0) throw error;
+		}
+	}
+
+	const byAddress = new Map(tokens.map(token => [token.address.toLowerCase(), token]));
+	const entries = await Promise.all([...pairs].map(async (pair) => {
+		const [tokenAddress, spenderAddress] = pair.split(":");
+		const token = byAddress.get(tokenAddress)!;
+		try {
+			const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+			const allowance: bigint = await contract.allowance(owner, spenderAddress);
+			if (allowance === 0n) return null;
+			return {
+				id: pair,
+				token,
+				spender: ethers.getAddress(spenderAddress),
+				spenderLabel: labels.get(spenderAddress) ?? null,
+				allowance,
+				formatted: ethers.formatUnits(allowance, token.decimals),
+				isUnlimited: isUnlimitedAllowance(allowance),
+			};
+		} catch (error) {
+			console.error(`查询 ${token.symbol} 授权额度失败:`, error);
+			return null;
+		}
+	}));
+
+	// 无限授权排在前面
+	return entries
+		.filter((entry): entry is ApprovalEntry => entry !== null)
+		.sort((a, b) => Number(b.isUnlimited) - Number(a.isUnlimited) || a.token.symbol.localeCompare(b.token.symbol));
+};
+
+// 查询当前授权额度
+export const getAllowance = (provider: ethers.Provider, token: TokenInfo, owner: string, spender: string): Promise<bigint> => {
+	return new ethers.Contract(token.address, ERC20_ABI, provider).allowance(owner, spender);
+};
+
+// 构造 approve 交易，amount 为 0 时即撤销授权
+export const buildApproveRequest = (from: string, token: TokenInfo, spender: string, amount: bigint): ethers.TransactionRequest => ({
+	from,
+	to: token.address,
+	data: erc20Interface.encodeFunctionData("approve", [spender, amount]),
+});
@@ -0,0 +1,142 @@
+import { ethers } from "ethers";
+
+// EIP-712 域
+export interface TypedDataDomain {
+	name?: string;
+	version?: string;
+	chainId?: number | bigint | string;
+	verifyingContract?: string;
+	salt?: string;
+}
+
+export interface TypedDataField {
+	name: string;
+	type: string;
+}
+
+export type TypedDataTypes = Record<string, readonly TypedDataField[]>;
+
+// EIP-712 结构化数据，primaryType 必须是 types 中定义的类型
+export interface TypedDataDefinition<
+	TTypes extends TypedDataTypes = TypedDataTypes,
+	TPrimaryType extends keyof TTypes & string = keyof TTypes & string,
+> {
+	domain: TypedDataDomain;
+	types: TTypes;
+	primaryType: TPrimaryType;
+	message: Record<string, unknown>;
+}
+
+// EIP-1271 isValidSignature 通过时返回的魔数
+const EIP1271_MAGIC_VALUE = "0x1626ba7e";
+const EIP1271_ABI = ["function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"];
+
+// EIP712Domain 类型由域中实际出现的字段推导
+const DOMAIN_FIELDS: TypedDataField[] = [
+	{ name: "name", type: "string" },
+	{ name: "version", type: "string" },
+	{ name: "chainId", type: "uint256" },
+	{ name: "verifyingContract", type: "address" },
+	{ name: "salt", type: "bytes32" },
+];
+
+// ethers 计算哈希时不接受 EIP712Domain
+const withoutDomainType = (types: TypedDataTypes) => {
+	const rest: Record<string, TypedDataField[]> = {};
+	for (const [key, fields] of Object.entries(types)) {
+		if (key !== "EIP712Domain") rest[key] = [...fields];
+	}
+	return rest;
+};
+
+// 生成 eth_signTypedData_v4 需要的 JSON，钱包要求包含 EIP712Domain 类型
+export const serializeTypedData = (typedData: TypedDataDefinition) => {
+	const { domain, types, primaryType, message } = typedData;
+	const domainType = DOMAIN_FIELDS.filter(field => domain[field.name as keyof TypedDataDomain] !== undefined);
+	return JSON.stringify(
+		{
+			domain,
+			types: { EIP712Domain: domainType, ...withoutDomainType(types) },
+			primaryType,
+			message,
+		},
+		(_key, value) => typeof value === "bigint" ? value.toString() : value,
+	);
+};
+
+// 只保留 primaryType 及其引用的类型，ethers 要求 types 中只有一个根类型
+const reachableTypes = (types: TypedDataTypes, primaryType: string) => {
+	const all = withoutDomainType(types);
+	const reachable: Record<string, TypedDataField[]> = {};
+	const visit = (type: string) => {
+		const name = type.replace(/(\[\d*\])+$/, "");
+		if (reachable[name] || !all[name]) return;
+		reachable[name] = all[name];
+		all[name].forEach(field => visit(field.type));
+	};
+	visit(primaryType);
+	return reachable;
+};
+
+// 结构化数据的签名哈希，按显式指定的 primaryType 计算
+export const hashTypedData = (typedData: TypedDataDefinition) => {
+	const { domain, types, primaryType, message } = typedData;
+	const structHash = ethers.TypedDataEncoder.hashStruct(primaryType, reachableTypes(types, primaryType), message);
+	return ethers.keccak256(ethers.concat(["0x1901", ethers.TypedDataEncoder.hashDomain(domain), structHash]));
+};
+
+// 校验哈希签名：合约账户走 EIP-1271，普通账户走 ecrecover
+export const verifyHashSignature = async (
+	provider: ethers.Provider | null,
+	address: string,
+	hash: string,
+	signature: string,
+) => {
+	if (provider) {
+		const code = await provider.getCode(address);
+		if (code !== "0x") {
+			try {
+				const contract = new ethers.Contract(address, EIP1271_ABI, provider);
+				const result: string = await contract.isValidSignature(hash, signature);
+				return result.toLowerCase() === EIP1271_MAGIC_VALUE;
+			} catch {
+				return false;
+			}
+		}
+	}
+
+	try {
+		return ethers.recoverAddress(hash, signature).toLowerCase() === address.toLowerCase();
+	} catch {
+		return false;
+	}
+};
+
+// 校验 personal_sign 签名
+export const verifyMessageSignature = (
+	provider: ethers.Provider | null,
+	params: { address: string; message: string | Uint8Array; signature: string },
+) => {
+	return verifyHashSignature(provider, params.address, ethers.hashMessage(params.message), params.signature);
+};
+
+// 校验 eth_signTypedData_v4 签名
+export const verifyTypedDataSignature = (
+	provider: ethers.Provider | null,
+	params: { address: string; typedData: TypedDataDefinition; signature: string },
+) => {
+	return verifyHashSignature(provider, params.address, hashTypedData(params.typedData), params.signature);
+};
+
+export type VerifySignatureParams = { address: string; signature: string } & (
+	| { message: string | Uint8Array }
+	| { typedData: TypedDataDefinition }
+);
+
+// 根据参数校验普通消息或结构化数据签名
+export const verifySignature = (provider: ethers.Provider | null, params: VerifySignatureParams) => {
+	if ("typedData" in params) {
+		return verifyTypedDataSignature(provider, params);
+	}
+	return verifyMessageSignature(provider, params);
+};
@@ -0,0 +1,76 @@
+// Sign-In with Ethereum
+// 参考: https://eips.ethereum.org/EIPS/eip-4361
+
+export interface SiweMessageParams {
+	domain: string;
+	address: string;
+	statement?: string;
+	uri: string;
+	version?: string;
+	chainId: number;
+	nonce: string;
+	issuedAt: string; // ISO 8601
+	expirationTime?: string;
+	notBefore?: string;
+	requestId?: string;
+	resources?: string[];
+}
+
+// 宿主应用提供的 SIWE 配置
+export interface SiweConfig {
+	// 从后端获取一次性 nonce
+	getNonce: (address: string) => Promise<string>;
+	// 交给后端校验签名，返回是否通过
+	verify: (args: { message: string; signature: string; address: string; chainId: number }) => Promise<boolean>;
+	// 退出登录时通知后端
+	signOut?: () => Promise<void>;
+	statement?: string;
+	domain?: string; // 默认 window.location.host
+	uri?: string; // 默认 window.location.origin
+	expiresIn?: number; // 会话有效期（毫秒），为空时不过期
+}
+
+// 登录会话
+export interface SiweSession {
+	address: string;
+	chainId: number;
+	message: string;
+	signature: string;
+	issuedAt: string;
+	expiresAt: string | null;
+}
+
+// 按 EIP-4361 格式生成待签名消息
+export const createSiweMessage = (params: SiweMessageParams) => {
+	const lines = [
+		`${params.domain} wants you to sign in with your Ethereum account:`,
+		params.address,
+		"",
+	];
+
+	if (params.statement) {
+		lines.push(params.statement, "");
+	}
+
+	lines.push(
+		`URI: ${params.uri}`,
+		`Version: ${params.version ?? "1"}`,
+		`Chain ID: ${params.chainId}`,
+		`Nonce: ${params.nonce}`,
+		`Issued At: ${params.issuedAt}`,
+	);
+
+	if (params.expirationTime) lines.push(`Expiration Time: ${params.expirationTime}`);
+	if (params.notBefore) lines.push(`Not Before: ${params.notBefore}`);
+	if (params.requestId) lines.push(`Request ID: ${params.requestId}`);
+	if (params.resources?.length) {
+		lines.push("Resources:", ...params.resources.map(resource => `- ${resource}`));
+	}
+
+	return lines.join("\n");
+};
+
+// 会话是否已过期
+export const isSessionExpired = (session: SiweSession) => {
+	return session.expiresAt !== null && new Date(session.expiresAt).getTime() <= Date.now();
+};
@@ -0,0 +1,74 @@
+import React, { useEffect } from "react";
+import { Check, UserPlus, Users } from "lucide-react";
+import { useWallet } from "../stores/context";
+import { useAccounts } from "../hooks";
+import { WALLET_ERROR_MESSAGES } from "../errors";
+
+// 钱包详情中的账户列表，点击切换当前账户
+export const AccountList: React.FC = () => {
+	const { accounts, isRequesting, error, switchAccount, requestAccounts, refresh } = useAccounts();
+	const { chainId, watchOnly, formatAddress, formatBalance, getCurrentNetwork, t } = useWallet();
+	const symbol = getCurrentNetwork()?.nativeCurrency.symbol ?? "ETH";
+
+	// 打开列表或切换网络时刷新各账户余额
+	useEffect(() => {
+		void refresh();
+	}, [refresh, chainId, accounts.length]);
+
+	// 请求更多账户，错误显示在列表下方
+	const handleRequestAccounts = async () => {
+		try {
+			await requestAccounts();
+		} catch {
+			// 错误已记录在 store 中
+		}
+	};
+
+	return (
+		<div className="p-3 bg-gray-50 rounded-lg">
+			<div className="flex items-center justify-between mb-2">
+				<div className="flex items-center gap-1 text-xs font-medium text-gray-500">
+					<Users className="w-3 h-3" />
+					{t("accounts")}
+				</div>
+				{/* 只读模式不能请求授权 */}
+				{!watchOnly && (
+					<button
+						onClick={handleRequestAccounts}
+						disabled={isRequesting}
+						className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:text-blue-300 font-medium transition-colors"
+					>
+						<UserPlus className="w-3 h-3" />
+						{isRequesting ? t("requestingAccounts") : t("addAccounts")}
+					</button>
+				)}
+			</div>
+
+			<div className="space-y-1 max-h-48 overflow-y-auto">
+				{accounts.map((account) => (
+					<button
+						key={account.address}
+						onClick={() => switchAccount(account.address)}
+						disabled={account.isActive}
+						className="flex items-center gap-3 w-full px-2 py-2 rounded-lg hover:bg-white disabled:bg-white transition-colors text-left"
+						title={account.isActive ? t("activeAccount") : t("switchAccount")}
+					>
+						<div className="flex-1 min-w-0">
+							<div className="text-sm font-medium text-gray-900 truncate">
+								{account.ensName ?? formatAddress(account.address)}
+							</div>
+							{account.ensName && (
+								<div className="text-xs text-gray-500 font-mono">{formatAddress(account.address)}</div>
+							)}
+						</div>
+						<div className="text-xs text-gray-600 font-medium">
+							{account.balance !== null ? `${formatBalance(account.balance)} ${symbol}` : "-"}
+						</div>
+						{account.isActive && <Check className="w-4 h-4 text-green-500" />}
+					</button>
+				))}
+			</div>
+			{error && <div className="text-xs text-red-500 mt-1">{t(WALLET_ERROR_MESSAGES[error.code])}</div>}
+		</div>
+	);
+};
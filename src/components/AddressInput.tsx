@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ethers } from "ethers";
+import { Loader2 } from "lucide-react";
+import { useWallet } from "../stores/context";
+import { isEnsName } from "../ens";
+
+interface AddressInputProps {
+	value: string;
+	onChange: (value: string) => void;
+	onResolved?: (address: string | null, input: string) => void; // 解析出的地址和对应的输入（已去除首尾空格），无效或解析中为 null
+	placeholder?: string;
+	className?: string;
+	disabled?: boolean;
+}
+
+type Resolution =
+	| { status: "idle" }
+	| { status: "loading" }
+	| { status: "resolved"; address: string; ensName: string | null }
+	| { status: "error"; message: string };
+
+// 支持 ENS 的地址输入框：name.eth 解析为地址，地址反查 ENS 名称
+export const AddressInput: React.FC<AddressInputProps> = ({
+	value,
+	onChange,
+	onResolved,
+	placeholder,
+	className = "",
+	disabled,
+}) => {
+	const { ensResolver, formatAddress, t } = useWallet();
+	const [resolution, setResolution] = useState<Resolution>({ status: "idle" });
+
+	// onResolved 通常是内联函数，通过 ref 读取最新值，避免每次渲染都重新解析
+	const onResolvedRef = useRef(onResolved);
+	useEffect(() => {
+		onResolvedRef.current = onResolved;
+	});
+
+	useEffect(() => {
+		const input = value.trim();
+		const report = (address: string | null) => onResolvedRef.current?.(address, input);
+		if (!input) {
+			setResolution({ status: "idle" });
+			report(null);
+			return;
+		}
+		if (!ethers.isAddress(input) && !isEnsName(input)) {
+			setResolution({ status: "error", message: t("invalidAddress") });
+			report(null);
+			return;
+		}
+
+		// 输入变化后立即清除上一次的地址，解析完成前不能使用旧地址
+		let cancelled = false;
+		setResolution({ status: "loading" });
+		report(null);
+		const timer = setTimeout(async () => {
+			try {
+				if (ethers.isAddress(input)) {
+					const address = ethers.getAddress(input);
+					// 反查失败不影响地址本身的有效性
+					const ensName = await ensResolver.lookupAddress(address).catch(() => null);
+					if (cancelled) return;
+					setResolution({ status: "resolved", address, ensName });
+					report(address);
+				} else {
+					const address = await ensResolver.resolveName(input);
+					if (cancelled) return;
+					if (address) {
+						setResolution({ status: "resolved", address, ensName: input });
+						report(address);
+					} else {
+						setResolution({ status: "error", message: t("ensNotFound") });
+						report(null);
+					}
+				}
+			} catch {
+				if (cancelled) return;
+				setResolution({ status: "error", message: t("ensLookupFailed") });
+				report(null);
+			}
+		}, 400);
+
+		return () => {
+			cancelled = true;
+			clearTimeout(timer);
+		};
+	}, [value, ensResolver, t]);
+
+	const input = value.trim();
+
+	return (
+		<div>
+			<div className="relative">
+				<input
+					value={value}
+					onChange={(e) => onChange(e.target.value)}
+					placeholder={placeholder ?? t("addressPlaceholder")}
+					disabled={disabled}
+					spellCheck={false}
+					className={`w-full px-3 py-2 pr-8 text-sm font-mono bg-white border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${resolution.status === "error" ? "border-red-300" : "border-gray-200"} ${className}`}
+				/>
+				{resolution.status === "loading" && (
+					<Loader2 className="absolute right-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 animate-spin" />
+				)}
+			</div>
+			{resolution.status === "resolved" && (
+				<div className="text-xs text-gray-500 mt-1 truncate">
+					{ethers.isAddress(input)
+						? resolution.ensName ?? formatAddress(resolution.address)
+						: resolution.address}
+				</div>
+			)}
+			{resolution.status === "error" && (
+				<div className="text-xs text-red-500 mt-1">{resolution.message}</div>
+			)}
+		</div>
+	);
+};
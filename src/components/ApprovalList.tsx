@@ -0,0 +1,164 @@
+import React, { useState } from "react";
+import { AlertTriangle, ShieldCheck } from "lucide-react";
+import { useWallet } from "../stores/context";
+import { useApprovals } from "../hooks";
+import { buildExplorerUrl } from "../config";
+import { WALLET_ERROR_MESSAGES } from "../errors";
+import type { ApprovalEntry } from "../approvals";
+
+// 钱包详情中的代币授权列表
+export const ApprovalList: React.FC = () => {
+	const { getCurrentNetwork, formatAddress, formatBalance, t } = useWallet();
+	const { approvals, unlimitedCount, hasScanned, isScanning, pendingId, error, canRevoke, lookbackBlocks, isLowerAllowance, scan, revoke, reduce } = useApprovals();
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [amount, setAmount] = useState("");
+
+	const network = getCurrentNetwork();
+
+	const startReduce = (entry: ApprovalEntry) => {
+		setEditingId(entry.id);
+		setAmount("");
+	};
+
+	// 提交新额度，失败时错误显示在列表下方
+	const confirmReduce = async (entry: ApprovalEntry) => {
+		try {
+			await reduce(entry, amount.trim());
+			setEditingId(null);
+		} catch {
+			// 错误已记录在 useApprovals 中
+		}
+	};
+
+	const handleRevoke = async (entry: ApprovalEntry) => {
+		try {
+			await revoke(entry);
+		} catch {
+			// 错误已记录在 useApprovals 中
+		}
+	};
+
+	return (
+		<div className="p-3 bg-gray-50 rounded-lg">
+			<div className="flex items-center justify-between mb-2">
+				<div className="text-xs font-medium text-gray-500">{t("approvals")}</div>
+				<button
+					onClick={scan}
+					disabled={isScanning}
+					className="text-xs text-blue-600 hover:text-blue-700 disabled:text-gray-400 font-medium transition-colors"
+				>
+					{isScanning ? t("scanningApprovals") : t("scanApprovals")}
+				</button>
+			</div>
+
+			{unlimitedCount > 0 && (
+				<div className="flex items-center gap-1 mb-2 text-xs text-red-600">
+					<AlertTriangle className="w-3 h-3 shrink-0" />
+					{t("unlimitedApprovalsWarning", { count: unlimitedCount })}
+				</div>
+			)}
+
+			{!hasScanned ? (
+				<div className="text-sm text-gray-400">{isScanning ? t("scanningApprovals") : t("approvalsNotScanned")}</div>
+			) : approvals.length === 0 ? (
+				<div className="flex items-center gap-1 text-sm text-gray-400">
+					<ShieldCheck className="w-4 h-4" />
+					{t("noApprovals")}
+				</div>
+			) : (
+				<div className="space-y-2 max-h-48 overflow-y-auto">
+					{approvals.map((entry) => {
+						const spenderUrl = buildExplorerUrl(network, "address", entry.spender);
+						const isPending = pendingId === entry.id;
+						return (
+							<div key={entry.id}>
+								<div className="flex items-center gap-3">
+									<div className="flex-1 min-w-0">
+										<div className="text-sm font-medium text-gray-900">
+											{entry.token.symbol}
+											<span className={`ml-2 text-xs font-normal ${entry.isUnlimited ? "text-red-600" : "text-gray-500"}`}>
+												{entry.isUnlimited ? t("unlimitedAllowance") : formatBalance(entry.formatted)}
+											</span>
+										</div>
+										{spenderUrl ? (
+											<a
+												href={spenderUrl}
+												target="_blank"
+												rel="noopener noreferrer"
+												className="text-xs text-gray-500 hover:text-blue-600 font-mono truncate block"
+											>
+												{entry.spenderLabel ?? formatAddress(entry.spender)}
+											</a>
+										) : (
+											<div className="text-xs text-gray-500 font-mono truncate">
+												{entry.spenderLabel ?? formatAddress(entry.spender)}
+											</div>
+										)}
+									</div>
+									{canRevoke && (
+										<div className="flex gap-1">
+											<button
+												onClick={() => startReduce(entry)}
+												disabled={isPending}
+												className="px-2 py-1 text-xs text-gray-600 bg-white border border-gray-200 hover:bg-gray-100 rounded-md transition-colors"
+											>
+												{t("reduceAllowance")}
+											</button>
+											<button
+												onClick={() => handleRevoke(entry)}
+												disabled={isPending}
+												className="px-2 py-1 text-xs text-white bg-red-500 hover:bg-red-600 disabled:bg-red-300 rounded-md font-medium transition-colors"
+											>
+												{t("revoke")}
+											</button>
+										</div>
+									)}
+								</div>
+
+								{/* 降低额度 */}
+								{editingId === entry.id && (
+									<div className="flex gap-2 mt-2">
+										<input
+											value={amount}
+											onChange={(e) => setAmount(e.target.value)}
+											placeholder={t("newAllowance")}
+											inputMode="decimal"
+											className="flex-1 min-w-0 px-3 py-1.5 text-xs bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+										/>
+										<button
+											onClick={() => confirmReduce(entry)}
+											disabled={isPending || !isLowerAllowance(entry, amount.trim())}
+											className="px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 rounded-lg font-medium transition-colors"
+										>
+											{t("confirm")}
+										</button>
+										<button
+											onClick={() => setEditingId(null)}
+											className="px-3 py-1.5 text-xs text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+										>
+											{t("cancel")}
+										</button>
+									</div>
+								)}
+								{editingId === entry.id && amount.trim() !== "" && !isLowerAllowance(entry, amount.trim()) && (
+									<div className="text-xs text-red-500 mt-1">{t("allowanceMustBeLower")}</div>
+								)}
+							</div>
+						);
+					})}
+				</div>
+			)}
+
+			{error && <div className="text-xs text-red-500 mt-2">{t(WALLET_ERROR_MESSAGES[error.code])}</div>}
+
+			{/* 扫描范围说明 */}
+			{hasScanned && lookbackBlocks !== null && (
+				<div className="text-[11px] text-gray-400 mt-2">
+					{Number.isFinite(lookbackBlocks)
+						? t("approvalsScanWindow", { blocks: lookbackBlocks.toLocaleString() })
+						: t("approvalsScanAll")}
+				</div>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,43 @@
+import React, { useEffect } from "react";
+import { AlertCircle, X } from "lucide-react";
+import { useWallet } from "../stores/context";
+import { useWalletError } from "../hooks";
+import type { WalletAction } from "../errors";
+
+interface ErrorToastProps {
+	className?: string;
+	duration?: number; // 自动关闭时间（毫秒）
+	exclude?: WalletAction[]; // 已在界面中就地显示的操作错误
+}
+
+// 显示最近一次错误的提示，用户主动拒绝的请求不提示
+export const ErrorToast: React.FC<ErrorToastProps> = ({
+	className = "fixed bottom-4 right-4 z-[60] flex items-start gap-3 max-w-sm bg-white border border-red-200 text-gray-800 rounded-xl shadow-xl px-4 py-3",
+	duration = 5000,
+	exclude = [],
+}) => {
+	const { error, message, clear } = useWalletError();
+	const t = useWallet((state) => state.t);
+	const visible = !!error && error.code !== "USER_REJECTED" && !(error.action && exclude.includes(error.action));
+
+	useEffect(() => {
+		if (!visible) return;
+		const timer = setTimeout(clear, duration);
+		return () => clearTimeout(timer);
+	}, [error, visible, duration, clear]);
+
+	if (!visible) return null;
+
+	return (
+		<div className={className} role="alert">
+			<AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+			<div className="flex-1 min-w-0 text-sm">
+				<div className="font-medium">{message}</div>
+				{error.rpcCode !== undefined && <div className="text-xs text-gray-400 mt-0.5">{error.rpcCode}</div>}
+			</div>
+			<button onClick={clear} className="text-gray-400 hover:text-gray-600" title={t("dismiss")}>
+				<X className="w-4 h-4" />
+			</button>
+		</div>
+	);
+};
@@ -1,17 +1,33 @@
 import {WalletComponent} from "./Wallet";
+import type {WalletComponentProps} from "./Wallet";
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  title?: React.ReactNode;
+  logo?: React.ReactNode; // 显示在标题左侧
+  className?: string; // 替换 header 的默认样式
+  walletProps?: WalletComponentProps; // 透传给钱包组件的主题和样式
+}
+
+export const Header: React.FC<HeaderProps> = ({
+  title = "Web3 DApp",
+  logo,
+  className = "bg-white shadow-sm border-b border-gray-200",
+  walletProps,
+}) => {
   return (
-    <header className="bg-white shadow-sm border-b border-gray-200">
+    <header className={className}>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
           {/* Logo */}
-          <div className="flex items-center">
-            <h1 className="text-xl font-bold text-gray-900">Web3 DApp</h1>
+          <div className="flex items-center gap-2">
+            {logo}
+            {typeof title === "string" ? (
+              <h1 className="text-xl font-bold text-gray-900">{title}</h1>
+            ) : title}
           </div>
 
           {/* 钱包组件 */}
-          <WalletComponent />
+          <WalletComponent {...walletProps} />
         </div>
       </div>
     </header>
@@ -0,0 +1,80 @@
+import React from "react";
+import { Image as ImageIcon, Loader2, RefreshCw } from "lucide-react";
+import { useWallet } from "../stores/context";
+import { useNfts } from "../hooks";
+import { WALLET_ERROR_MESSAGES } from "../errors";
+
+// 钱包详情中的 NFT 列表，图片懒加载
+export const NftGallery: React.FC = () => {
+	const t = useWallet((state) => state.t);
+	const { nfts, isLoading, error, refresh, avatarId, canSetAvatar, setAvatar } = useNfts();
+
+	return (
+		<div className="p-3 bg-gray-50 rounded-lg">
+			<div className="flex items-center justify-between mb-2">
+				<div className="text-xs font-medium text-gray-500">{t("nfts")}</div>
+				<button
+					onClick={refresh}
+					disabled={isLoading}
+					className="text-gray-400 hover:text-gray-600 transition-colors"
+					title={t("refresh")}
+				>
+					<RefreshCw className={`w-3 h-3 ${isLoading ? "animate-spin" : ""}`} />
+				</button>
+			</div>
+
+			{isLoading && nfts.length === 0 && (
+				<div className="flex items-center gap-2 text-xs text-gray-400">
+					<Loader2 className="w-3 h-3 animate-spin" />
+					{t("nftsLoading")}
+				</div>
+			)}
+
+			{!isLoading && !error && nfts.length === 0 && (
+				<div className="text-sm text-gray-400">{t("noNfts")}</div>
+			)}
+
+			{nfts.length > 0 && (
+				<div className="grid grid-cols-3 gap-2 max-h-72 overflow-y-auto">
+					{nfts.map((nft) => {
+						const isAvatar = avatarId === nft.id;
+						return (
+							<div key={nft.id} className={`bg-white rounded-lg overflow-hidden border ${isAvatar ? "border-blue-500" : "border-gray-200"}`}>
+								<div className="aspect-square bg-gray-100 flex items-center justify-center">
+									{nft.image ? (
+										<img
+											src={nft.image}
+											alt={nft.name ?? `#${nft.tokenId}`}
+											loading="lazy"
+											decoding="async"
+											className="w-full h-full object-cover"
+										/>
+									) : (
+										<ImageIcon className="w-6 h-6 text-gray-300" />
+									)}
+								</div>
+								<div className="p-1.5">
+									<div className="text-xs font-medium text-gray-900 truncate">{nft.name ?? `#${nft.tokenId}`}</div>
+									<div className="text-[10px] text-gray-500 truncate">
+										{nft.collectionName ?? nft.contract}
+										{nft.standard === "erc1155" && nft.balance !== "1" && ` ×${nft.balance}`}
+									</div>
+									{canSetAvatar && nft.image && (
+										<button
+											onClick={() => setAvatar(isAvatar ? null : nft)}
+											className="mt-1 w-full text-[10px] text-blue-600 hover:text-blue-700 font-medium"
+										>
+											{isAvatar ? t("removeAvatar") : t("setAsAvatar")}
+										</button>
+									)}
+								</div>
+							</div>
+						);
+					})}
+				</div>
+			)}
+
+			{error && <div className="text-xs text-red-500 mt-2">{t(WALLET_ERROR_MESSAGES[error.code])}</div>}
+		</div>
+	);
+};
@@ -0,0 +1,90 @@
+import React, { useState } from "react";
+import { Ban, CheckCircle2, ExternalLink, History, Loader2, RefreshCw, XCircle } from "lucide-react";
+import { useWallet } from "../stores/context";
+import { buildExplorerUrl, findChain } from "../config";
+import type { TransactionStatus } from "../transactions/tracker";
+import type { MessageKey } from "../i18n";
+
+// 交易状态图标和文案
+const STATUS_DISPLAY: Record<TransactionStatus, { label: MessageKey; icon: React.ReactNode }> = {
+	pending: { label: "txPending", icon: <Loader2 className="w-4 h-4 text-blue-500 animate-spin" /> },
+	confirmed: { label: "txConfirmed", icon: <CheckCircle2 className="w-4 h-4 text-green-500" /> },
+	failed: { label: "txFailed", icon: <XCircle className="w-4 h-4 text-red-500" /> },
+	replaced: { label: "txReplaced", icon: <RefreshCw className="w-4 h-4 text-yellow-500" /> },
+	cancelled: { label: "txCancelled", icon: <Ban className="w-4 h-4 text-gray-400" /> },
+};
+
+// 最近交易下拉菜单
+export const RecentActivity: React.FC = () => {
+	const { chains, locale, getRecentTransactions, clearTransactions, formatAddress, t } = useWallet();
+	const [showDropdown, setShowDropdown] = useState(false);
+
+	const transactions = getRecentTransactions();
+	const pendingCount = transactions.filter(tx => tx.status === "pending").length;
+
+	return (
+		<div className="relative">
+			<button
+				onClick={() => setShowDropdown(!showDropdown)}
+				className="relative flex items-center bg-white hover:bg-gray-50 text-gray-700 px-3 py-2.5 rounded-xl transition-all duration-200 border border-gray-200 shadow-sm hover:shadow-md"
+				title={t("recentActivity")}
+			>
+				<History className="w-4 h-4" />
+				{pendingCount > 0 && (
+					<span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 text-[10px] leading-4 text-white bg-blue-500 rounded-full">
+						{pendingCount}
+					</span>
+				)}
+			</button>
+
+			{showDropdown && (
+				<>
+					<div className="fixed inset-0 z-40" onClick={() => setShowDropdown(false)} />
+					<div className="absolute top-full right-0 mt-2 bg-white border border-gray-200 rounded-xl shadow-xl py-2 z-50 w-[320px] backdrop-blur-sm bg-white/95">
+						<div className="flex items-center justify-between px-4 py-2">
+							<span className="text-sm font-semibold text-gray-900">{t("recentActivity")}</span>
+							{transactions.length > pendingCount && (
+								<button onClick={clearTransactions} className="text-xs text-gray-400 hover:text-gray-600">
+									{t("clear")}
+								</button>
+							)}
+						</div>
+
+						{transactions.length === 0 ? (
+							<div className="px-4 py-3 text-sm text-gray-400">{t("noTransactions")}</div>
+						) : (
+							<div className="max-h-80 overflow-y-auto">
+								{transactions.map((tx) => {
+									const status = STATUS_DISPLAY[tx.status];
+									const explorerUrl = buildExplorerUrl(findChain(chains, tx.chainId), "tx", tx.replacedBy ?? tx.hash);
+									return (
+										<div key={tx.hash} className="flex items-center gap-3 px-4 py-2.5 hover:bg-gray-50">
+											{status.icon}
+											<div className="flex-1 min-w-0">
+												<div className="text-sm text-gray-900 truncate">{tx.description ?? formatAddress(tx.hash)}</div>
+												<div className="text-xs text-gray-500">
+													{t(status.label)} · {new Date(tx.submittedAt).toLocaleString(locale)}
+												</div>
+											</div>
+											{explorerUrl && (
+												<a
+													href={explorerUrl}
+													target="_blank"
+													rel="noopener noreferrer"
+													className="text-gray-400 hover:text-blue-600"
+													title={t("viewOnExplorer")}
+												>
+													<ExternalLink className="w-4 h-4" />
+												</a>
+											)}
+										</div>
+									);
+								})}
+							</div>
+						)}
+					</div>
+				</>
+			)}
+		</div>
+	);
+};
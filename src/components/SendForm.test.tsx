@@ -0,0 +1,53 @@
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { createMockProvider, createTestWalletStore } from "../testing";
+import { SendForm } from "./SendForm";
+import { WalletProvider } from "./WalletProvider";
+
+afterEach(() => {
+	cleanup();
+});
+
+const renderSendForm = async () => {
+	const provider = createMockProvider({ chainId: "0xaa36a7" });
+	const { store } = createTestWalletStore({ provider, locale: "en", autoRefresh: { mode: "off" } });
+	await store.getState().connectWallet();
+	render(
+		<WalletProvider store={store}>
+			<SendForm onBack={() => {}} />
+		</WalletProvider>
+	);
+	return { store, provider };
+};
+
+describe("SendForm", () => {
+	it("disables sending as soon as the recipient changes", async () => {
+		const { provider } = await renderSendForm();
+		const [recipientInput, amountInput] = screen.getAllByRole("textbox");
+		const send = () => screen.getByRole("button", { name: "Send" }) as HTMLButtonElement;
+
+		fireEvent.change(recipientInput, { target: { value: provider.accounts[1] } });
+		fireEvent.change(amountInput, { target: { value: "1" } });
+		await waitFor(() => expect(send().disabled).toBe(false));
+
+		// 新地址解析完成前不能发送到旧地址
+		fireEvent.change(recipientInput, { target: { value: provider.accounts[2] } });
+		expect(send().disabled).toBe(true);
+
+		await waitFor(() => expect(send().disabled).toBe(false));
+		fireEvent.click(send());
+		await waitFor(() => expect(provider.sentTransactions).toHaveLength(1));
+		expect(String(provider.sentTransactions[0].to).toLowerCase()).toBe(provider.accounts[2].toLowerCase());
+	});
+
+	it("rejects amounts that do not parse at the asset decimals", async () => {
+		const { provider } = await renderSendForm();
+		const [recipientInput, amountInput] = screen.getAllByRole("textbox");
+
+		fireEvent.change(recipientInput, { target: { value: provider.accounts[1] } });
+		fireEvent.change(amountInput, { target: { value: "1e-3" } });
+		await new Promise(resolve => setTimeout(resolve, 1000));
+
+		expect((screen.getByRole("button", { name: "Send" }) as HTMLButtonElement).disabled).toBe(true);
+	});
+});
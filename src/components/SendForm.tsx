@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { ArrowLeft, ExternalLink, Send } from "lucide-react";
+import { useWallet } from "../stores/context";
+import { buildExplorerUrl } from "../config";
+import { toWalletError, WALLET_ERROR_MESSAGES, type WalletError } from "../errors";
+import { parseTransferAmount, type FeeEstimate } from "../transactions/send";
+import { AddressInput } from "./AddressInput";
+
+interface SendFormProps {
+	onBack: () => void;
+}
+
+// 数量是否能按资产精度解析且大于 0，与 store 发送时的校验一致
+const isValidAmount = (amount: string, decimals?: number) => {
+	try {
+		return parseTransferAmount(amount, decimals) > 0n;
+	} catch {
+		return false;
+	}
+};
+
+// 钱包详情中的转账表单
+export const SendForm: React.FC<SendFormProps> = ({ onBack }) => {
+	const {
+		address,
+		balance,
+		tokenBalances,
+		getTokens,
+		getCurrentNetwork,
+		estimateTransfer,
+		sendTransaction,
+		formatBalance,
+		t,
+	} = useWallet();
+
+	const [asset, setAsset] = useState(""); // 空字符串表示原生币，否则为代币合约地址
+	const [to, setTo] = useState("");
+	const [resolved, setResolved] = useState<{ input: string; address: string | null }>({ input: "", address: null }); // 解析后的收款地址
+	const [amount, setAmount] = useState("");
+	const [estimate, setEstimate] = useState<{ key: string; fee: FeeEstimate } | null>(null);
+	const [isEstimating, setIsEstimating] = useState(false);
+	const [isSending, setIsSending] = useState(false);
+	const [error, setError] = useState<WalletError | null>(null);
+	const [txHash, setTxHash] = useState<string | null>(null);
+
+	const network = getCurrentNetwork();
+	const nativeCurrency = network?.nativeCurrency ?? { name: "Ether", symbol: "ETH", decimals: 18 };
+	const tokens = getTokens();
+	const selectedToken = tokens.find(token => token.address === asset);
+	const assetDecimals = selectedToken?.decimals;
+	const assetBalance = selectedToken ? tokenBalances[selectedToken.address.toLowerCase()] ?? "0" : balance;
+	// 只使用当前输入解析出的地址和当前参数的手续费，输入变化后旧结果立即失效
+	const recipient = resolved.input === to.trim() ? resolved.address : null;
+	const estimateKey = `${recipient}:${amount}:${asset}`;
+	const fee = estimate?.key === estimateKey ? estimate.fee : null;
+
+	// 输入变化后延迟预估手续费
+	useEffect(() => {
+		setEstimate(null);
+		if (!recipient || !isValidAmount(amount, assetDecimals)) return;
+
+		let cancelled = false;
+		const timer = setTimeout(async () => {
+			setIsEstimating(true);
+			setError(null);
+			try {
+				const fee = await estimateTransfer({ to: recipient, amount, token: asset || undefined });
+				if (!cancelled) setEstimate({ key: `${recipient}:${amount}:${asset}`, fee });
+			} catch (err) {
+				if (!cancelled) setError(toWalletError(err));
+			} finally {
+				if (!cancelled) setIsEstimating(false);
+			}
+		}, 500);
+
+		return () => {
+			cancelled = true;
+			clearTimeout(timer);
+		};
+	}, [recipient, amount, asset, assetDecimals, estimateTransfer, t]);
+
+	// 最大数量：代币为全部余额，原生币需要扣除手续费
+	const handleMax = async () => {
+		if (selectedToken) {
+			setAmount(assetBalance);
+			return;
+		}
+		try {
+			const estimate = await estimateTransfer({ to: recipient ?? address!, amount: "0" });
+			// 余额、手续费和原生币数量都按 wei 计算
+			const available = ethers.parseEther(balance) - ethers.parseEther(estimate.fee);
+			setAmount(available > 0n ? ethers.formatEther(available) : "0");
+		} catch (err) {
+			setError(toWalletError(err));
+		}
+	};
+
+	// 提交转账
+	const handleSend = async () => {
+		setIsSending(true);
+		setError(null);
+		try {
+			const hash = await sendTransaction({ to: recipient!, amount, token: asset || undefined });
+			setTxHash(hash);
+		} catch (err) {
+			setError(toWalletError(err));
+		} finally {
+			setIsSending(false);
+		}
+	};
+
+	if (txHash) {
+		const explorerUrl = buildExplorerUrl(network, "tx", txHash);
+		return (
+			<div className="space-y-4">
+				<div className="p-4 bg-green-50 rounded-xl text-sm text-green-700">
+					<div className="font-medium mb-1">{t("txSubmitted")}</div>
+					<div className="font-mono text-xs break-all">{txHash}</div>
+				</div>
+				{explorerUrl && (
+					<a
+						href={explorerUrl}
+						target="_blank"
+						rel="noopener noreferrer"
+						className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+					>
+						<ExternalLink className="w-4 h-4" />
+						{t("viewOnExplorer")}
+					</a>
+				)}
+				<button
+					onClick={onBack}
+					className="w-full px-6 py-2.5 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl font-medium transition-all duration-200"
+				>
+					{t("back")}
+				</button>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-3">
+			<button
+				onClick={onBack}
+				className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+			>
+				<ArrowLeft className="w-4 h-4" />
+				{t("back")}
+			</button>
+
+			{/* 资产选择 */}
+			<div className="p-3 bg-gray-50 rounded-lg">
+				<div className="text-xs font-medium text-gray-500 mb-1">{t("asset")}</div>
+				<select
+					value={asset}
+					onChange={(e) => setAsset(e.target.value)}
+					className="w-full px-3 py-2 text-sm bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+				>
+					<option value="">{nativeCurrency.symbol}</option>
+					{tokens.map((token) => (
+						<option key={token.address} value={token.address}>{token.symbol}</option>
+					))}
+				</select>
+				<div className="text-xs text-gray-500 mt-1">
+					{t("available", { amount: formatBalance(assetBalance), symbol: selectedToken?.symbol ?? nativeCurrency.symbol })}
+				</div>
+			</div>
+
+			{/* 收款地址 */}
+			<div className="p-3 bg-gray-50 rounded-lg">
+				<div className="text-xs font-medium text-gray-500 mb-1">{t("recipient")}</div>
+				<AddressInput value={to} onChange={setTo} onResolved={(address, input) => setResolved({ input, address })} />
+			</div>
+
+			{/* 数量 */}
+			<div className="p-3 bg-gray-50 rounded-lg">
+				<div className="text-xs font-medium text-gray-500 mb-1">{t("amount")}</div>
+				<div className="flex gap-2">
+					<input
+						value={amount}
+						onChange={(e) => setAmount(e.target.value)}
+						placeholder="0.0"
+						inputMode="decimal"
+						className="flex-1 min-w-0 px-3 py-2 text-sm bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+					/>
+					<button
+						onClick={handleMax}
+						className="px-3 py-2 text-xs text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg font-medium transition-colors"
+					>
+						{t("max")}
+					</button>
+				</div>
+			</div>
+
+			{/* 手续费预览 */}
+			<div className="p-3 bg-gray-50 rounded-lg text-xs text-gray-600 space-y-1">
+				<div className="flex justify-between">
+					<span>{t("estimatedFee")}</span>
+					<span className="font-medium text-gray-900">
+						{isEstimating ? t("estimating") : fee ? `${formatBalance(fee.fee)} ${nativeCurrency.symbol}` : "-"}
+					</span>
+				</div>
+				{fee?.maxFeePerGas && (
+					<div className="flex justify-between">
+						<span>{t("maxFeeAndPriorityFee")}</span>
+						<span>
+							{ethers.formatUnits(fee.maxFeePerGas, "gwei").slice(0, 8)} / {ethers.formatUnits(fee.maxPriorityFeePerGas ?? 0n, "gwei").slice(0, 8)} Gwei
+						</span>
+					</div>
+				)}
+			</div>
+
+			{error && <div className="text-xs text-red-500 break-all">{t(WALLET_ERROR_MESSAGES[error.code])}</div>}
+
+			<button
+				onClick={handleSend}
+				disabled={isSending || !fee || !recipient}
+				className="flex items-center justify-center gap-2 w-full px-6 py-2.5 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-blue-400 disabled:to-purple-400 text-white rounded-xl font-medium transition-all duration-200 shadow-sm"
+			>
+				<Send className="w-4 h-4" />
+				{isSending ? t("sending") : t("send")}
+			</button>
+		</div>
+	);
+};
@@ -0,0 +1,62 @@
+import React, { useState } from "react";
+import { LogIn, ShieldCheck } from "lucide-react";
+import { useWallet } from "../stores/context";
+
+// 钱包详情中的 SIWE 登录状态，未配置 SIWE 时不显示
+export const SignInStatus: React.FC = () => {
+	const { siwe, isAuthenticated, session, locale, signIn, signOut, t } = useWallet();
+	const [isSigning, setIsSigning] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	if (!siwe) return null;
+
+	// 登录
+	const handleSignIn = async () => {
+		setIsSigning(true);
+		setError(null);
+		try {
+			await signIn();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : t("signInFailed"));
+		} finally {
+			setIsSigning(false);
+		}
+	};
+
+	return (
+		<div className="p-3 bg-gray-50 rounded-lg">
+			<div className="flex items-center justify-between">
+				<div>
+					<div className="text-xs font-medium text-gray-500 mb-1">{t("signInStatus")}</div>
+					<div className="flex items-center gap-1 text-sm text-gray-900 font-medium">
+						{isAuthenticated && <ShieldCheck className="w-4 h-4 text-green-500" />}
+						{isAuthenticated ? t("signedIn") : t("notSignedIn")}
+					</div>
+					{session?.expiresAt && (
+						<div className="text-xs text-gray-500 mt-1">
+							{t("sessionExpiresAt", { time: new Date(session.expiresAt).toLocaleString(locale) })}
+						</div>
+					)}
+				</div>
+				{isAuthenticated ? (
+					<button
+						onClick={signOut}
+						className="px-3 py-1.5 text-xs text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-lg font-medium transition-colors"
+					>
+						{t("signOut")}
+					</button>
+				) : (
+					<button
+						onClick={handleSignIn}
+						disabled={isSigning}
+						className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 rounded-lg font-medium transition-colors"
+					>
+						<LogIn className="w-3 h-3" />
+						{isSigning ? t("signingIn") : t("signIn")}
+					</button>
+				)}
+			</div>
+			{error && <div className="text-xs text-red-500 mt-1 break-all">{error}</div>}
+		</div>
+	);
+};
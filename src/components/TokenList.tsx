@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { Coins, Plus, Trash2 } from "lucide-react";
+import { useWallet } from "../stores/context";
+import { toWalletError, WALLET_ERROR_MESSAGES, type WalletError } from "../errors";
+
+// 钱包详情中的代币列表
+export const TokenList: React.FC = () => {
+	const {
+		chainId,
+		tokenBalances,
+		importedTokens,
+		getTokens,
+		importToken,
+		removeToken,
+		formatBalance,
+		getFiatValue,
+		formatFiat,
+		t,
+	} = useWallet();
+
+	const [tokenAddress, setTokenAddress] = useState("");
+	const [isImporting, setIsImporting] = useState(false);
+	const [importError, setImportError] = useState<WalletError | null>(null);
+
+	const tokens = getTokens();
+
+	// 是否为用户导入的代币（只有导入的代币可以移除）
+	const isImported = (address: string) => importedTokens.some(
+		token => token.chainId === chainId && token.address.toLowerCase() === address.toLowerCase()
+	);
+
+	// 代币的法币估值，没有价格时不显示
+	const fiatValue = (address: string) => {
+		const value = getFiatValue(tokenBalances[address.toLowerCase()] ?? "0", address);
+		return value === null ? null : <div className="text-xs text-gray-500">≈ {formatFiat(value)}</div>;
+	};
+
+	// 导入代币
+	const handleImport = async () => {
+		setIsImporting(true);
+		setImportError(null);
+		try {
+			await importToken(tokenAddress.trim());
+			setTokenAddress("");
+		} catch (err) {
+			setImportError(toWalletError(err));
+		} finally {
+			setIsImporting(false);
+		}
+	};
+
+	return (
+		<div className="p-3 bg-gray-50 rounded-lg">
+			<div className="text-xs font-medium text-gray-500 mb-2">{t("tokens")}</div>
+
+			{tokens.length === 0 ? (
+				<div className="text-sm text-gray-400">{t("noTokens")}</div>
+			) : (
+				<div className="space-y-2 max-h-48 overflow-y-auto">
+					{tokens.map((token) => (
+						<div key={token.address} className="flex items-center gap-3">
+							{token.logoURI ? (
+								<img src={token.logoURI} alt={token.symbol} className="w-6 h-6 rounded-full" />
+							) : (
+								<div className="w-6 h-6 rounded-full bg-gradient-to-br from-blue-100 to-purple-100 flex items-center justify-center">
+									<Coins className="w-3 h-3 text-blue-600" />
+								</div>
+							)}
+							<div className="flex-1 min-w-0">
+								<div className="text-sm font-medium text-gray-900">{token.symbol}</div>
+								<div className="text-xs text-gray-500 truncate">{token.name}</div>
+							</div>
+							<div className="text-right">
+								<div className="text-sm text-gray-900 font-medium">
+									{formatBalance(tokenBalances[token.address.toLowerCase()] ?? "0")}
+								</div>
+								{fiatValue(token.address)}
+							</div>
+							{isImported(token.address) && (
+								<button
+									onClick={() => removeToken(token.address)}
+									className="text-gray-400 hover:text-red-500 transition-colors"
+									title={t("removeToken")}
+								>
+									<Trash2 className="w-3.5 h-3.5" />
+								</button>
+							)}
+						</div>
+					))}
+				</div>
+			)}
+
+			{/* 导入代币 */}
+			<div className="flex gap-2 mt-3">
+				<input
+					value={tokenAddress}
+					onChange={(e) => setTokenAddress(e.target.value)}
+					placeholder={t("tokenAddressPlaceholder")}
+					className="flex-1 min-w-0 px-3 py-1.5 text-xs font-mono bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+				/>
+				<button
+					onClick={handleImport}
+					disabled={isImporting || !tokenAddress.trim()}
+					className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 rounded-lg font-medium transition-colors"
+				>
+					<Plus className="w-3 h-3" />
+					{isImporting ? t("importingToken") : t("importToken")}
+				</button>
+			</div>
+			{importError && <div className="text-xs text-red-500 mt-1">{t(WALLET_ERROR_MESSAGES[importError.code])}</div>}
+		</div>
+	);
+};
@@ -0,0 +1,126 @@
+import React, { useState } from "react";
+import { ArrowDownLeft, ArrowUpRight, ExternalLink, Loader2, RefreshCw, XCircle } from "lucide-react";
+import { useWallet } from "../stores/context";
+import { useTransactionHistory } from "../hooks";
+import { buildExplorerUrl } from "../config";
+import { WALLET_ERROR_MESSAGES } from "../errors";
+import type { HistoryKind } from "../history";
+import type { MessageKey } from "../i18n";
+
+const KINDS: { kind: HistoryKind; label: MessageKey }[] = [
+	{ kind: "normal", label: "historyNormal" },
+	{ kind: "internal", label: "historyInternal" },
+	{ kind: "token", label: "historyToken" },
+];
+
+// 钱包详情中的链上交易记录
+export const TransactionHistory: React.FC = () => {
+	const { address, locale, getCurrentNetwork, formatAddress, formatBalance, t } = useWallet();
+	const [kind, setKind] = useState<HistoryKind>("normal");
+	const { entries, hasMore, isLoading, error, loadMore, refresh } = useTransactionHistory(kind);
+
+	const network = getCurrentNetwork();
+	const addressUrl = address ? buildExplorerUrl(network, "address", address) : null;
+
+	return (
+		<div className="p-3 bg-gray-50 rounded-lg">
+			<div className="flex items-center justify-between mb-2">
+				<div className="flex gap-1">
+					{KINDS.map((item) => (
+						<button
+							key={item.kind}
+							onClick={() => setKind(item.kind)}
+							className={`px-2 py-1 text-xs rounded-md font-medium transition-colors ${kind === item.kind ? "bg-white text-blue-600 shadow-sm" : "text-gray-500 hover:text-gray-700"}`}
+						>
+							{t(item.label)}
+						</button>
+					))}
+				</div>
+				<button
+					onClick={refresh}
+					disabled={isLoading}
+					className="text-gray-400 hover:text-gray-600 transition-colors"
+					title={t("refresh")}
+				>
+					<RefreshCw className={`w-3 h-3 ${isLoading ? "animate-spin" : ""}`} />
+				</button>
+			</div>
+
+			{entries.length === 0 && !isLoading && !error && (
+				<div className="text-sm text-gray-400">{t("noHistory")}</div>
+			)}
+
+			{entries.length > 0 && (
+				<div className="space-y-1 max-h-64 overflow-y-auto">
+					{entries.map((entry) => {
+						const isOutgoing = entry.from.toLowerCase() === address?.toLowerCase();
+						const explorerUrl = buildExplorerUrl(network, "tx", entry.hash);
+						return (
+							<div key={entry.id} className="flex items-center gap-3 py-1.5">
+								{entry.isError ? (
+									<XCircle className="w-4 h-4 text-red-500 shrink-0" />
+								) : isOutgoing ? (
+									<ArrowUpRight className="w-4 h-4 text-gray-500 shrink-0" />
+								) : (
+									<ArrowDownLeft className="w-4 h-4 text-green-500 shrink-0" />
+								)}
+								<div className="flex-1 min-w-0">
+									<div className="text-sm text-gray-900 truncate">
+										{entry.method ?? formatAddress(isOutgoing ? entry.to ?? entry.hash : entry.from)}
+										{entry.isError && <span className="ml-1 text-xs text-red-500">{t("historyFailed")}</span>}
+									</div>
+									<div className="text-xs text-gray-500">{new Date(entry.timestamp).toLocaleString(locale)}</div>
+								</div>
+								<div className={`text-sm font-medium ${isOutgoing ? "text-gray-900" : "text-green-600"}`}>
+									{isOutgoing ? "-" : "+"}{formatBalance(entry.value)} {entry.symbol}
+								</div>
+								{explorerUrl && (
+									<a
+										href={explorerUrl}
+										target="_blank"
+										rel="noopener noreferrer"
+										className="text-gray-400 hover:text-blue-600"
+										title={t("viewOnExplorer")}
+									>
+										<ExternalLink className="w-3.5 h-3.5" />
+									</a>
+								)}
+							</div>
+						);
+					})}
+				</div>
+			)}
+
+			{isLoading && (
+				<div className="flex items-center gap-2 text-xs text-gray-400 mt-2">
+					<Loader2 className="w-3 h-3 animate-spin" />
+					{t("historyLoading")}
+				</div>
+			)}
+
+			{!isLoading && hasMore && (
+				<button onClick={loadMore} className="w-full mt-2 text-xs text-blue-600 hover:text-blue-700 font-medium">
+					{t("loadMore")}
+				</button>
+			)}
+
+			{/* 没有 API 或 API Key 时退回到区块浏览器的地址页面 */}
+			{error && (
+				<div className="mt-2 space-y-1">
+					<div className="text-xs text-gray-500">{t(WALLET_ERROR_MESSAGES[error.code])}</div>
+					{addressUrl && (
+						<a
+							href={addressUrl}
+							target="_blank"
+							rel="noopener noreferrer"
+							className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium"
+						>
+							<ExternalLink className="w-3 h-3" />
+							{t("viewAddressOnExplorer")}
+						</a>
+					)}
+				</div>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,74 @@
+import { act, cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { createMockProvider, createTestWalletStore } from "../testing";
+import type { MockProviderOptions } from "../testing";
+import type { WalletStoreOptions } from "../stores/walletStore";
+import { WalletComponent } from "./Wallet";
+import { WalletProvider } from "./WalletProvider";
+
+const SEPOLIA = "0xaa36a7";
+
+afterEach(() => {
+	cleanup();
+});
+
+const renderWallet = (providerOptions: MockProviderOptions = {}, storeOptions: WalletStoreOptions = {}) => {
+	const provider = createMockProvider({ chainId: SEPOLIA, ...providerOptions });
+	const { store } = createTestWalletStore({ provider, locale: "en", autoRefresh: { mode: "off" }, ...storeOptions });
+	render(
+		<WalletProvider store={store}>
+			<WalletComponent />
+		</WalletProvider>
+	);
+	return { store, provider };
+};
+
+describe("WalletComponent", () => {
+	it("connects through the connect button", async () => {
+		const { store, provider } = renderWallet();
+
+		fireEvent.click(screen.getByRole("button", { name: "Connect Wallet" }));
+
+		await waitFor(() => expect(store.getState().isConnected).toBe(true));
+		expect(screen.queryByRole("button", { name: "Connect Wallet" })).toBeNull();
+		expect(screen.getAllByText("0xf39F...2266").length).toBeGreaterThan(0);
+		expect(provider.requests.map(request => request.method)).toContain("eth_requestAccounts");
+	});
+
+	it("keeps the connect button when the user rejects", async () => {
+		const { store, provider } = renderWallet();
+		provider.rejectNext();
+
+		fireEvent.click(screen.getByRole("button", { name: "Connect Wallet" }));
+
+		await waitFor(() => expect(store.getState().errors.connect?.code).toBe("USER_REJECTED"));
+		expect(store.getState().isConnected).toBe(false);
+		expect(screen.getByRole("button", { name: "Connect Wallet" })).toBeTruthy();
+	});
+
+	it("shows the wrong network banner and switches to the default network", async () => {
+		const { store, provider } = renderWallet({ chains: [SEPOLIA, "0x1"] }, { requiredChains: ["ethereum"] });
+
+		fireEvent.click(screen.getByRole("button", { name: "Connect Wallet" }));
+
+		const switchButton = await screen.findByRole("button", { name: "Switch to Ethereum Mainnet" });
+		expect(screen.getAllByText("Wrong Network").length).toBeGreaterThan(0);
+
+		fireEvent.click(switchButton);
+
+		await waitFor(() => expect(store.getState().chainId).toBe("0x1"));
+		expect(provider.chainId).toBe("0x1");
+		await waitFor(() => expect(screen.queryByText("Wrong Network")).toBeNull());
+	});
+
+	it("follows account changes made in the wallet", async () => {
+		const { store, provider } = renderWallet({ authorized: true });
+
+		fireEvent.click(screen.getByRole("button", { name: "Connect Wallet" }));
+		await waitFor(() => expect(store.getState().isConnected).toBe(true));
+
+		act(() => provider.switchAccount(1));
+
+		await waitFor(() => expect(screen.getAllByText("0x7099...79C8").length).toBeGreaterThan(0));
+	});
+});
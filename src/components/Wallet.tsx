@@ -1,70 +1,104 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
-import { Wallet, ChevronDown, Check, LogOut, Copy, Check as CheckIcon } from "lucide-react";
-import { useWalletStore, NETWORKS } from "../stores/walletStore";
-
-// 扩展 Window 接口以包含 ethereum
-declare global {
-	interface Window {
-		ethereum?: {
-			request: (args: { method: string; params?: any[] }) => Promise<any>;
-			on: (eventName: string, handler: (...args: any[]) => void) => void;
-			removeListener: (eventName: string, handler: (...args: any[]) => void) => void;
-			isMetaMask?: boolean;
-		};
-	}
+import React, { useState } from "react";
+import { Wallet, ChevronDown, Check, LogOut, Copy, Check as CheckIcon, Send, RefreshCw, Eye, AlertTriangle } from "lucide-react";
+import { useWallet } from "../stores/context";
+import { useAccountDetails, useConnect, useDisconnect, useNetworkSwitcher, useWalletError } from "../hooks";
+import type {
+	UseAccountDetailsResult,
+	UseConnectResult,
+	UseDisconnectResult,
+	UseNetworkSwitcherResult,
+	UseWalletErrorResult,
+} from "../hooks";
+import { WALLET_ERROR_MESSAGES } from "../errors";
+import { slotClass, themeStyles } from "./theme";
+import type { WalletClassNames, WalletTheme } from "./theme";
+import { TokenList } from "./TokenList";
+import { SendForm } from "./SendForm";
+import { RecentActivity } from "./RecentActivity";
+import { SignInStatus } from "./SignInStatus";
+import { AccountList } from "./AccountList";
+import { ErrorToast } from "./ErrorToast";
+import { WatchAddressForm } from "./WatchAddressForm";
+import { TransactionHistory } from "./TransactionHistory";
+import { ApprovalList } from "./ApprovalList";
+import { NftGallery } from "./NftGallery";
+
+// 自定义渲染时可用的钱包状态和操作
+export interface WalletRenderProps {
+	connect: UseConnectResult;
+	network: UseNetworkSwitcherResult;
+	account: UseAccountDetailsResult;
+	disconnect: UseDisconnectResult;
+	error: UseWalletErrorResult;
+}
+
+export interface WalletComponentProps {
+	theme?: WalletTheme;
+	classNames?: WalletClassNames;
+	children?: (wallet: WalletRenderProps) => React.ReactNode; // 传入时替换内置界面
 }
 
-export const WalletComponent: React.FC = () => {
-	// 使用 zustand store
-	const {
-		address,
-		chainId,
-		isConnected,
-		balance,
-		ensName,
-		ensAvatar,
-		userDisconnected,
-		connectWallet,
-		disconnectWallet,
-		switchNetwork,
-		formatAddress,
-		formatBalance,
-		getCurrentNetwork,
-		isMetaMaskInstalled,
-		updateWalletState, // 新增：用于更新状态而不触发弹窗的方法
-	} = useWalletStore();
+export const WalletComponent: React.FC<WalletComponentProps> = ({ theme, classNames, children }) => {
+	const connect = useConnect();
+	const network = useNetworkSwitcher();
+	const account = useAccountDetails();
+	const disconnect = useDisconnect();
+	const error = useWalletError();
+	const t = useWallet((state) => state.t);
+	const clearError = useWallet((state) => state.clearError);
+
+	const { connectors, activeConnectorId, needsPicker, isConnecting } = connect;
+	const { networks, currentNetwork, isUnsupported, defaultNetwork, isSwitching } = network;
+	const { address, isWatchOnly, ensName, avatar, displayName, formattedBalance, symbol, fiatBalance, portfolioValue, currency, currencies, setCurrency, copied, copyAddress, isRefreshing, lastUpdated, balanceError, locale, refreshBalances } = account;
 
 	// 本地状态
 	const [showNetworkDropdown, setShowNetworkDropdown] = useState(false);
-	const [isConnecting, setIsConnecting] = useState(false);
+	const [showWalletPicker, setShowWalletPicker] = useState(false);
 	const [showDisconnectConfirm, setShowDisconnectConfirm] = useState(false);
 	const [showWalletDetails, setShowWalletDetails] = useState(false);
-	const [copiedAddress, setCopiedAddress] = useState(false);
-	
-	// 使用 ref 存储事件处理函数，避免重复添加监听器
-	const handlersRef = useRef<{
-		accountsChanged?: (accounts: string[]) => void;
-		chainChanged?: (chainId: string) => void;
-	}>({});
-
-	// 连接钱包处理函数
-	const handleConnectWallet = async () => {
-		setIsConnecting(true);
+	const [showSendForm, setShowSendForm] = useState(false);
+	const [detailsTab, setDetailsTab] = useState<"overview" | "activity" | "nfts">("overview");
+	const [showWatchForm, setShowWatchForm] = useState(false);
+
+	if (children) {
+		return <>{children({ connect, network, account, disconnect, error })}</>;
+	}
+
+	const styles = themeStyles(theme);
+	const cls = (slot: Parameters<typeof slotClass>[1], fallback: string) => slotClass(classNames, slot, fallback);
+
+	// 连接指定钱包，失败时保留选择弹窗并显示错误
+	const connectWith = async (id?: string) => {
 		try {
-			await connectWallet();
-		} finally {
-			setIsConnecting(false);
+			await connect.connect(id);
+			setShowWalletPicker(false);
+		} catch {
+			// 错误已记录在 store 中，由弹窗或提示显示
 		}
 	};
 
-	// 显示断开连接确认弹窗
+	// 连接钱包处理函数 - 发现多个钱包时先让用户选择
+	const handleConnectWallet = async () => {
+		if (needsPicker) {
+			clearError("connect");
+			setShowWalletPicker(true);
+			return;
+		}
+		await connectWith();
+	};
+
+	// 显示断开连接确认弹窗，只读模式直接退出
 	const showDisconnectConfirmDialog = () => {
+		if (isWatchOnly) {
+			disconnect.disconnect();
+			return;
+		}
 		setShowDisconnectConfirm(true);
 	};
 
 	// 确认断开连接
 	const confirmDisconnect = () => {
-		disconnectWallet();
+		disconnect.disconnect();
 		setShowDisconnectConfirm(false);
 	};
 
@@ -81,162 +115,117 @@ export const WalletComponent: React.FC = () => {
 	// 隐藏钱包详情
 	const hideWalletDetails = () => {
 		setShowWalletDetails(false);
+		setShowSendForm(false);
+		setDetailsTab("overview");
 	};
 
-	// 复制钱包地址
-	const copyAddress = async () => {
-		if (address) {
-			try {
-				await navigator.clipboard.writeText(address);
-				setCopiedAddress(true);
-				setTimeout(() => setCopiedAddress(false), 2000);
-			} catch (error) {
-				console.error('复制失败:', error);
-				// 降级方案：使用传统的复制方法
-				const textArea = document.createElement('textarea');
-				textArea.value = address;
-				document.body.appendChild(textArea);
-				textArea.select();
-				document.execCommand('copy');
-				document.body.removeChild(textArea);
-				setCopiedAddress(true);
-				setTimeout(() => setCopiedAddress(false), 2000);
-			}
+	// 切换网络处理函数，失败时保留下拉菜单并显示错误
+	const handleSwitchNetwork = async (networkKey: string) => {
+		try {
+			await network.switchNetwork(networkKey);
+			setShowNetworkDropdown(false);
+		} catch {
+			// 错误已记录在 store 中
 		}
 	};
 
-	// 切换网络处理函数
-	const handleSwitchNetwork = async (networkKey: keyof typeof NETWORKS) => {
-		await switchNetwork(networkKey);
-		setShowNetworkDropdown(false);
-	};
-
-	// 账户变化处理函数 - 使用 useCallback 避免重复创建
-	const handleAccountsChanged = useCallback(async (accounts: string[]) => {
-		console.log('handleAccountsChanged', accounts);
-		
-		if (accounts.length === 0) {
-			// 账户被断开连接
-			disconnectWallet();
-		} else if (accounts[0] !== address) {
-			// 账户切换，只更新状态，不重新连接（避免弹窗）
-			await updateWalletState(accounts[0]);
-		}
-	}, [address, disconnectWallet, updateWalletState]);
-
-	// 网络变化处理函数 - 使用 useCallback 避免重复创建
-	const handleChainChanged = useCallback(async (newChainId: string) => {
-		console.log('handleChainChanged', newChainId);
-		
-		// 只更新网络状态，不重新连接（避免弹窗）
-		if (address && newChainId !== chainId) {
-			await updateWalletState(address, newChainId);
-		}
-	}, [address, chainId, updateWalletState]);
-
-	// 初始连接检查 - 避免不必要的弹窗
-	const checkInitialConnection = useCallback(async () => {
-		// 如果用户主动断开了连接，不自动重新连接
-		if (userDisconnected) return;
-		
-		// 如果已经连接，不需要重复检查
-		if (isConnected) return;
-		
+	// 从不支持的网络切换到默认网络
+	const handleSwitchToDefault = async () => {
 		try {
-			const accounts = await window.ethereum!.request({ method: "eth_accounts" });
-			if (accounts.length > 0) {
-				// 静默获取连接状态，不触发连接弹窗
-				await updateWalletState(accounts[0]);
-			}
-		} catch (error) {
-			console.error("检查连接状态失败:", error);
+			await network.switchToDefault();
+		} catch {
+			// 错误已记录在 store 中，在提示中显示
 		}
-	}, [userDisconnected, isConnected, updateWalletState]);
-
-	// 监听账户和网络变化
-	useEffect(() => {
-		if (!isMetaMaskInstalled()) return;
-
-		// 存储当前的处理函数引用
-		handlersRef.current.accountsChanged = handleAccountsChanged;
-		handlersRef.current.chainChanged = handleChainChanged;
-
-		// 添加事件监听器
-		window.ethereum!.on("accountsChanged", handleAccountsChanged);
-		window.ethereum!.on("chainChanged", handleChainChanged);
-
-		// 初始连接检查
-		checkInitialConnection();
-
-		// 清理函数
-		return () => {
-			if (window.ethereum) {
-				// 移除事件监听器
-				if (handlersRef.current.accountsChanged) {
-					window.ethereum.removeListener("accountsChanged", handlersRef.current.accountsChanged);
-				}
-				if (handlersRef.current.chainChanged) {
-					window.ethereum.removeListener("chainChanged", handlersRef.current.chainChanged);
-				}
-			}
-		};
-	}, []); // 空依赖数组，只在组件挂载/卸载时执行
+	};
 
 	return (
-		<div className="relative">
-			{!isConnected ? (
-				<button
-					onClick={handleConnectWallet}
-					disabled={isConnecting}
-					className="flex items-center gap-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-blue-400 disabled:to-purple-400 text-white px-6 py-3 rounded-xl font-medium transition-all duration-200 shadow-lg hover:shadow-xl disabled:shadow-md"
-				>
-					<Wallet className="w-5 h-5" />
-					<span className="text-sm font-semibold">
-						{isConnecting ? "连接中..." : "连接钱包"}
-					</span>
-				</button>
+		<div className={cls("root", "relative")} style={styles.root}>
+			{!account.isConnected ? (
+				<div className="flex items-center gap-3">
+					<button
+						onClick={handleConnectWallet}
+						disabled={isConnecting}
+						className={cls("connectButton", "flex items-center gap-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-blue-400 disabled:to-purple-400 text-white px-6 py-3 rounded-xl font-medium transition-all duration-200 shadow-lg hover:shadow-xl disabled:shadow-md")}
+						style={styles.primary}
+					>
+						<Wallet className="w-5 h-5" />
+						<span className="text-sm font-semibold">
+							{isConnecting ? t("connecting") : t("connectWallet")}
+						</span>
+					</button>
+					{/* 只读模式入口 */}
+					<button
+						onClick={() => {
+							clearError("watch");
+							setShowWatchForm(true);
+						}}
+						className={cls("secondaryButton", "flex items-center gap-2 bg-white hover:bg-gray-50 text-gray-700 px-4 py-3 rounded-xl font-medium transition-all duration-200 border border-gray-200 shadow-sm hover:shadow-md")}
+						style={styles.button}
+						title={t("watchAddressHint")}
+					>
+						<Eye className="w-5 h-5" />
+						<span className="text-sm font-semibold">{t("watchAddress")}</span>
+					</button>
+				</div>
 			) : (
 				<div className="flex items-center gap-3">
 					{/* 网络显示和切换 */}
 					<div className="relative">
 						<button
-							onClick={() => setShowNetworkDropdown(!showNetworkDropdown)}
-							className="flex items-center gap-2 bg-white hover:bg-gray-50 text-gray-700 px-4 py-2.5 rounded-xl font-medium transition-all duration-200 border border-gray-200 shadow-sm hover:shadow-md"
+							onClick={() => {
+								clearError("switchNetwork");
+								setShowNetworkDropdown(!showNetworkDropdown);
+							}}
+							className={cls("networkButton", "flex items-center gap-2 bg-white hover:bg-gray-50 text-gray-700 px-4 py-2.5 rounded-xl font-medium transition-all duration-200 border border-gray-200 shadow-sm hover:shadow-md")}
+							style={styles.button}
 						>
-							<div className="w-2 h-2 rounded-full bg-green-500"></div>
-							<span className="text-sm font-medium">{getCurrentNetwork()?.chainName.split(" ")[0] || "未知网络"}</span>
+							<div className={`w-2 h-2 rounded-full ${isUnsupported ? "bg-red-500" : "bg-green-500"}`}></div>
+							<span className="text-sm font-medium">
+								{isUnsupported ? t("wrongNetwork") : currentNetwork?.chainName.split(" ")[0] || t("unknownNetwork")}
+							</span>
 							<ChevronDown className="w-4 h-4 text-gray-400 transition-transform duration-200" style={{ transform: showNetworkDropdown ? 'rotate(180deg)' : 'rotate(0deg)' }} />
 						</button>
 
 						{showNetworkDropdown && (
-							<div className="absolute top-full right-0 mt-2 bg-white border border-gray-200 rounded-xl shadow-xl py-2 z-50 min-w-[200px] backdrop-blur-sm bg-white/95">
-								{Object.entries(NETWORKS).map(([key, network]) => (
+							<div className={cls("networkMenu", "absolute top-full right-0 mt-2 bg-white border border-gray-200 rounded-xl shadow-xl py-2 z-50 min-w-[200px] backdrop-blur-sm bg-white/95")} style={styles.surface}>
+								{networks.map(({ key, chain, isActive }) => (
 									<button
 										key={key}
-										onClick={() => handleSwitchNetwork(key as keyof typeof NETWORKS)}
+										onClick={() => handleSwitchNetwork(key)}
 										className="flex items-center justify-between w-full px-4 py-3 text-sm text-gray-700 hover:bg-gray-50 transition-colors duration-150 first:rounded-t-xl last:rounded-b-xl"
 									>
-										<span className="font-medium">{network.chainName}</span>
-										{chainId === network.chainId && <Check className="w-4 h-4 text-green-500" />}
+										<span className="flex items-center gap-2">
+											{chain.iconUrl && <img src={chain.iconUrl} alt={chain.chainName} className="w-5 h-5 rounded-full" />}
+											<span className="font-medium">{chain.chainName}</span>
+											{chain.testnet && <span className="text-[10px] px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-700">{t("testnet")}</span>}
+										</span>
+										{isActive && <Check className="w-4 h-4 text-green-500" />}
 									</button>
 								))}
+								{network.error && (
+									<div className="px-4 py-2 text-xs text-red-500">{t(WALLET_ERROR_MESSAGES[network.error.code])}</div>
+								)}
 							</div>
 						)}
 					</div>
 
+					{/* 最近交易 */}
+					<RecentActivity />
+
 					{/* 钱包信息 */}
 					<div 
-						className="bg-gradient-to-r from-gray-50 to-white text-gray-800 px-4 py-1 rounded-xl border border-gray-200 shadow-sm hover:shadow-md transition-all duration-200 min-w-[200px] cursor-pointer"
+						className={cls("accountButton", "bg-gradient-to-r from-gray-50 to-white text-gray-800 px-4 py-1 rounded-xl border border-gray-200 shadow-sm hover:shadow-md transition-all duration-200 min-w-[200px] cursor-pointer")}
+						style={styles.button}
 						onClick={showWalletDetailsDialog}
-						title="点击查看钱包详情"
+						title={t("viewWalletDetails")}
 					>
 						<div className="flex items-start gap-3 w-full">
-							{/* ENS 头像或默认钱包图标 */}
+							{/* ENS / NFT 头像或默认钱包图标 */}
 							<div className="flex-shrink-0 relative">
-								{ensAvatar ? (
+								{avatar ? (
 									<img
-										src={ensAvatar}
-										alt="ENS Avatar"
+										src={avatar}
+										alt="Avatar"
 										className="w-10 h-10 rounded-full object-cover ring-2 ring-white shadow-sm"
 										onError={(e) => {
 											// 如果头像加载失败，显示默认图标
@@ -245,7 +234,7 @@ export const WalletComponent: React.FC = () => {
 										}}
 									/>
 								) : null}
-								<div className={`w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 via-purple-500 to-pink-500 flex items-center justify-center shadow-sm ${ensAvatar ? "hidden" : "flex"}`}>
+								<div className={`w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 via-purple-500 to-pink-500 flex items-center justify-center shadow-sm ${avatar ? "hidden" : "flex"}`}>
 									<Wallet className="w-5 h-5 text-white" />
 								</div>
 								{/* 在线状态指示器 */}
@@ -256,11 +245,18 @@ export const WalletComponent: React.FC = () => {
 							<div className="text-sm min-w-0 flex-1 overflow-hidden">
 								{/* 主要显示：ENS名称或钱包地址 */}
 								<div className="font-semibold text-gray-900 truncate leading-tight mb-1">
-									{ensName ? ensName : formatAddress(address!)}
+									{displayName}
 								</div>
 								{/* 余额显示 */}
-								<div className="text-xs text-gray-600 truncate leading-tight font-medium">
-									{formatBalance(balance)} {getCurrentNetwork()?.nativeCurrency.symbol || "ETH"}
+								<div className="flex items-center gap-1 text-xs text-gray-600 truncate leading-tight font-medium">
+									{isWatchOnly && (
+										<span className="flex items-center gap-0.5 px-1 rounded bg-amber-100 text-amber-700">
+											<Eye className="w-3 h-3" />
+											{t("watchOnly")}
+										</span>
+									)}
+									{formattedBalance} {symbol}
+									{fiatBalance && <span className="text-gray-400">≈ {fiatBalance}</span>}
 								</div>
 							</div>
 						</div>
@@ -269,47 +265,108 @@ export const WalletComponent: React.FC = () => {
 					{/* 断开连接按钮 */}
 					<button
 						onClick={showDisconnectConfirmDialog}
-						className="flex items-center gap-2 bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600 text-white px-4 py-2.5 rounded-xl font-medium transition-all duration-200 shadow-sm hover:shadow-md"
-						title="断开连接"
+						className={cls("disconnectButton", "flex items-center gap-2 bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600 text-white px-4 py-2.5 rounded-xl font-medium transition-all duration-200 shadow-sm hover:shadow-md")}
+						style={styles.danger}
+						title={isWatchOnly ? t("exitWatchOnly") : t("disconnect")}
 					>
 						<LogOut className="w-4 h-4" />
 					</button>
 				</div>
 			)}
 
+			{/* 钱包选择弹窗 */}
+			{showWalletPicker && (
+				<div className={cls("overlay", "fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm")} onClick={() => setShowWalletPicker(false)}>
+					<div className={cls("dialog", "bg-white rounded-2xl p-6 max-w-sm w-full mx-4 shadow-2xl border border-gray-100")} style={styles.surface} onClick={(e) => e.stopPropagation()}>
+						<div className="flex items-center gap-4 mb-6">
+							<div className="w-12 h-12 bg-gradient-to-br from-blue-100 to-purple-100 rounded-full flex items-center justify-center">
+								<Wallet className="w-6 h-6 text-blue-600" />
+							</div>
+							<div>
+								<h3 className="text-xl font-bold text-gray-900">{t("selectWallet")}</h3>
+								<p className="text-sm text-gray-500 mt-1">{t("selectWalletHint")}</p>
+							</div>
+						</div>
+
+						<div className="space-y-2">
+							{connectors.map((connector) => (
+								<button
+									key={connector.id}
+									onClick={() => connectWith(connector.id)}
+									className="flex items-center gap-3 w-full p-3 bg-gray-50 hover:bg-gray-100 rounded-xl transition-colors duration-150"
+								>
+									{connector.icon ? (
+										<img src={connector.icon} alt={connector.name} className="w-8 h-8 rounded-lg" />
+									) : (
+										<div className="w-8 h-8 rounded-lg bg-gradient-to-br from-blue-500 via-purple-500 to-pink-500 flex items-center justify-center">
+											<Wallet className="w-4 h-4 text-white" />
+										</div>
+									)}
+									<span className="flex-1 text-left text-sm font-medium text-gray-900">{connector.name}</span>
+									{activeConnectorId === connector.id && <Check className="w-4 h-4 text-green-500" />}
+								</button>
+							))}
+						</div>
+						{connect.error && (
+							<div className="mt-4 text-sm text-red-500">{t(WALLET_ERROR_MESSAGES[connect.error.code])}</div>
+						)}
+					</div>
+				</div>
+			)}
+
+			{/* 只读模式地址输入弹窗 */}
+			{showWatchForm && (
+				<div className={cls("overlay", "fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm")} onClick={() => setShowWatchForm(false)}>
+					<div className={cls("dialog", "bg-white rounded-2xl p-6 max-w-sm w-full mx-4 shadow-2xl border border-gray-100")} style={styles.surface} onClick={(e) => e.stopPropagation()}>
+						<div className="flex items-center gap-4 mb-6">
+							<div className="w-12 h-12 bg-gradient-to-br from-amber-100 to-yellow-100 rounded-full flex items-center justify-center">
+								<Eye className="w-6 h-6 text-amber-600" />
+							</div>
+							<div>
+								<h3 className="text-xl font-bold text-gray-900">{t("watchAddress")}</h3>
+								<p className="text-sm text-gray-500 mt-1">{t("watchAddressHint")}</p>
+							</div>
+						</div>
+						<WatchAddressForm onDone={() => setShowWatchForm(false)} onCancel={() => setShowWatchForm(false)} />
+					</div>
+				</div>
+			)}
+
 			{/* 点击外部关闭下拉菜单 */}
 			{showNetworkDropdown && <div className="fixed inset-0 z-40" onClick={() => setShowNetworkDropdown(false)} />}
 
 			{/* 断开连接确认弹窗 */}
 			{showDisconnectConfirm && (
-				<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={cancelDisconnect}>
-					<div className="bg-white rounded-2xl p-6 max-w-sm w-full mx-4 shadow-2xl border border-gray-100" onClick={(e) => e.stopPropagation()}>
+				<div className={cls("overlay", "fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm")} onClick={cancelDisconnect}>
+					<div className={cls("dialog", "bg-white rounded-2xl p-6 max-w-sm w-full mx-4 shadow-2xl border border-gray-100")} style={styles.surface} onClick={(e) => e.stopPropagation()}>
 						<div className="flex items-center gap-4 mb-6">
 							<div className="w-12 h-12 bg-gradient-to-br from-red-100 to-pink-100 rounded-full flex items-center justify-center">
 								<LogOut className="w-6 h-6 text-red-600" />
 							</div>
 							<div>
-								<h3 className="text-xl font-bold text-gray-900">断开连接</h3>
-								<p className="text-sm text-gray-500 mt-1">确认要断开钱包连接吗？</p>
+								<h3 className="text-xl font-bold text-gray-900">{t("disconnect")}</h3>
+								<p className="text-sm text-gray-500 mt-1">{t("disconnectConfirm")}</p>
 							</div>
 						</div>
 						
 						<div className="text-sm text-gray-600 mb-8 bg-gray-50 rounded-xl p-4">
-							<p className="leading-relaxed">断开连接后，您需要重新连接才能使用钱包功能。当前连接的钱包信息将被清除。</p>
+							<p className="leading-relaxed">{t("disconnectWarning")}</p>
 						</div>
 
 						<div className="flex gap-3 justify-end">
 							<button
 								onClick={cancelDisconnect}
-								className="px-6 py-2.5 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl font-medium transition-all duration-200 hover:shadow-sm"
+								className={cls("secondaryButton", "px-6 py-2.5 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl font-medium transition-all duration-200 hover:shadow-sm")}
+								style={styles.button}
 							>
-								取消
+								{t("cancel")}
 							</button>
 							<button
 								onClick={confirmDisconnect}
-								className="px-6 py-2.5 bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600 text-white rounded-xl font-medium transition-all duration-200 shadow-sm hover:shadow-md"
+								className={cls("disconnectButton", "px-6 py-2.5 bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600 text-white rounded-xl font-medium transition-all duration-200 shadow-sm hover:shadow-md")}
+								style={styles.danger}
 							>
-								确认断开
+								{t("confirmDisconnect")}
 							</button>
 						</div>
 					</div>
@@ -318,113 +375,253 @@ export const WalletComponent: React.FC = () => {
 
 			{/* 钱包详情弹窗 */}
 			{showWalletDetails && (
-				<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={hideWalletDetails}>
-					<div className="bg-white rounded-2xl p-6 max-w-md w-full mx-4 shadow-2xl border border-gray-100" onClick={(e) => e.stopPropagation()}>
+				<div className={cls("overlay", "fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm")} onClick={hideWalletDetails}>
+					<div className={cls("dialog", "bg-white rounded-2xl p-6 max-w-md w-full mx-4 shadow-2xl border border-gray-100 max-h-[90vh] overflow-y-auto")} style={styles.surface} onClick={(e) => e.stopPropagation()}>
 						<div className="flex items-center gap-4 mb-6">
 							<div className="w-12 h-12 bg-gradient-to-br from-blue-100 to-purple-100 rounded-full flex items-center justify-center">
 								<Wallet className="w-6 h-6 text-blue-600" />
 							</div>
 							<div>
-								<h3 className="text-xl font-bold text-gray-900">钱包详情</h3>
-								<p className="text-sm text-gray-500 mt-1">查看完整的钱包信息</p>
+								<h3 className="text-xl font-bold text-gray-900">{showSendForm ? t("send") : t("walletDetails")}</h3>
+								<p className="text-sm text-gray-500 mt-1">{showSendForm ? t("sendHint") : t("walletDetailsHint")}</p>
 							</div>
 						</div>
+
+						{/* 概览 / 交易记录 / NFT */}
+						{!showSendForm && (
+							<div className="flex gap-1 p-1 mb-4 bg-gray-100 rounded-xl">
+								{(["overview", "activity", "nfts"] as const).map((tab) => (
+									<button
+										key={tab}
+										onClick={() => setDetailsTab(tab)}
+										className={`flex-1 px-3 py-1.5 text-sm rounded-lg font-medium transition-colors ${detailsTab === tab ? "bg-white text-gray-900 shadow-sm" : "text-gray-500 hover:text-gray-700"}`}
+									>
+										{t(tab)}
+									</button>
+								))}
+							</div>
+						)}
 						
-						<div className="space-y-4 mb-6">
-							{/* 钱包头像和基本信息 */}
-							<div className="flex items-center gap-4 p-4 bg-gray-50 rounded-xl">
-								<div className="relative">
-									{ensAvatar ? (
-										<img
-											src={ensAvatar}
-											alt="ENS Avatar"
-											className="w-16 h-16 rounded-full object-cover ring-2 ring-white shadow-sm"
-										/>
-									) : (
-										<div className="w-16 h-16 rounded-full bg-gradient-to-br from-blue-500 via-purple-500 to-pink-500 flex items-center justify-center shadow-sm">
-											<Wallet className="w-8 h-8 text-white" />
-										</div>
-									)}
-									<div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 rounded-full border-2 border-white"></div>
-								</div>
-								<div className="flex-1">
-									<div className="font-semibold text-gray-900 text-lg">
-										{ensName ? ensName : "钱包地址"}
+						{showSendForm ? (
+							<div className="mb-6">
+								<SendForm onBack={() => setShowSendForm(false)} />
+							</div>
+						) : detailsTab === "activity" ? (
+							<div className="mb-6">
+								<TransactionHistory />
+							</div>
+						) : detailsTab === "nfts" ? (
+							<div className="mb-6">
+								<NftGallery />
+							</div>
+						) : (
+							<div className="space-y-4 mb-6">
+								{/* 钱包头像和基本信息 */}
+								<div className="flex items-center gap-4 p-4 bg-gray-50 rounded-xl">
+									<div className="relative">
+										{avatar ? (
+											<img
+												src={avatar}
+												alt="Avatar"
+												className="w-16 h-16 rounded-full object-cover ring-2 ring-white shadow-sm"
+											/>
+										) : (
+											<div className="w-16 h-16 rounded-full bg-gradient-to-br from-blue-500 via-purple-500 to-pink-500 flex items-center justify-center shadow-sm">
+												<Wallet className="w-8 h-8 text-white" />
+											</div>
+										)}
+										<div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 rounded-full border-2 border-white"></div>
 									</div>
-									<div className="text-sm text-gray-500 mt-1">
-										{ensName ? "ENS 名称" : "普通地址"}
+									<div className="flex-1">
+										<div className="font-semibold text-gray-900 text-lg">
+											{ensName ? ensName : t("walletAddress")}
+										</div>
+										<div className="text-sm text-gray-500 mt-1">
+											{ensName ? t("ensName") : t("plainAddress")}
+										</div>
 									</div>
 								</div>
-							</div>
 
-							{/* 详细信息 */}
-							<div className="space-y-3">
-								{/* 钱包地址 */}
-								<div className="p-3 bg-gray-50 rounded-lg">
-									<div className="flex items-center justify-between mb-1">
-										<div className="text-xs font-medium text-gray-500">钱包地址</div>
-										<button
-											onClick={copyAddress}
-											className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium transition-colors"
-											title="复制地址"
-										>
-											{copiedAddress ? (
-												<>
-													<CheckIcon className="w-3 h-3" />
-													已复制
-												</>
-											) : (
-												<>
-													<Copy className="w-3 h-3" />
-													复制
-												</>
-											)}
-										</button>
-									</div>
-									<div className="text-sm font-mono text-gray-900 break-all">
-										{address}
+								{/* 详细信息 */}
+								<div className="space-y-3">
+									{/* 钱包地址 */}
+									<div className="p-3 bg-gray-50 rounded-lg">
+										<div className="flex items-center justify-between mb-1">
+											<div className="text-xs font-medium text-gray-500">{t("walletAddress")}</div>
+											<button
+												onClick={copyAddress}
+												className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium transition-colors"
+												title={t("copyAddress")}
+											>
+												{copied ? (
+													<>
+														<CheckIcon className="w-3 h-3" />
+														{t("copied")}
+													</>
+												) : (
+													<>
+														<Copy className="w-3 h-3" />
+														{t("copy")}
+													</>
+												)}
+											</button>
+										</div>
+										<div className="text-sm font-mono text-gray-900 break-all">
+											{address}
+										</div>
 									</div>
-								</div>
 
-								{/* 网络信息 */}
-								<div className="p-3 bg-gray-50 rounded-lg">
-									<div className="text-xs font-medium text-gray-500 mb-1">当前网络</div>
-									<div className="text-sm text-gray-900">
-										{getCurrentNetwork()?.chainName || "未知网络"}
+									{/* 已授权账户 */}
+									<AccountList />
+
+									{/* 网络信息 */}
+									<div className="p-3 bg-gray-50 rounded-lg">
+										<div className="text-xs font-medium text-gray-500 mb-1">{t("currentNetwork")}</div>
+										<div className="text-sm text-gray-900">
+											{currentNetwork?.chainName || t("unknownNetwork")}
+										</div>
 									</div>
-								</div>
 
-								{/* 余额信息 */}
-								<div className="p-3 bg-gray-50 rounded-lg">
-									<div className="text-xs font-medium text-gray-500 mb-1">账户余额</div>
-									<div className="text-sm text-gray-900 font-medium">
-										{formatBalance(balance)} {getCurrentNetwork()?.nativeCurrency.symbol || "ETH"}
+									{/* 资产总值 */}
+									<div className="p-3 bg-gray-50 rounded-lg">
+										<div className="flex items-center justify-between mb-1">
+											<div className="text-xs font-medium text-gray-500">{t("portfolioValue")}</div>
+											<select
+												value={currency}
+												onChange={(e) => setCurrency(e.target.value)}
+												className="text-xs text-gray-600 bg-transparent focus:outline-none"
+												title={t("displayCurrency")}
+											>
+												{currencies.map((item) => (
+													<option key={item} value={item}>{item}</option>
+												))}
+											</select>
+										</div>
+										<div className="text-lg text-gray-900 font-semibold">
+											{portfolioValue ?? "-"}
+										</div>
 									</div>
-								</div>
 
-								{/* ENS信息（如果有） */}
-								{ensName && (
+									{/* 余额信息 */}
 									<div className="p-3 bg-gray-50 rounded-lg">
-										<div className="text-xs font-medium text-gray-500 mb-1">ENS 名称</div>
+										<div className="flex items-center justify-between mb-1">
+											<div className="text-xs font-medium text-gray-500">{t("balance")}</div>
+											<button
+												onClick={refreshBalances}
+												disabled={isRefreshing}
+												className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-600 transition-colors"
+												title={t("refreshBalance")}
+											>
+												<RefreshCw className={`w-3 h-3 ${isRefreshing ? "animate-spin" : ""}`} />
+												{lastUpdated && <span>{new Date(lastUpdated).toLocaleTimeString(locale)}</span>}
+											</button>
+										</div>
 										<div className="text-sm text-gray-900 font-medium">
-											{ensName}
+											{formattedBalance} {symbol}
+											{fiatBalance && <span className="ml-2 text-xs text-gray-500 font-normal">≈ {fiatBalance}</span>}
 										</div>
+										{balanceError && (
+											<div className="text-xs text-red-500 mt-1">{t(WALLET_ERROR_MESSAGES[balanceError.code])}</div>
+										)}
 									</div>
-								)}
+
+									{/* 登录状态，只读模式不能签名 */}
+									{!isWatchOnly && <SignInStatus />}
+
+									{/* 代币余额 */}
+									<TokenList />
+
+									{/* 代币授权 */}
+									<ApprovalList />
+
+									{/* ENS信息（如果有） */}
+									{ensName && (
+										<div className="p-3 bg-gray-50 rounded-lg">
+											<div className="text-xs font-medium text-gray-500 mb-1">{t("ensName")}</div>
+											<div className="text-sm text-gray-900 font-medium">
+												{ensName}
+											</div>
+										</div>
+									)}
+								</div>
 							</div>
-						</div>
+						)}
 
 						<div className="flex gap-3 justify-end">
+							{!showSendForm && !isWatchOnly && (
+								<button
+									onClick={() => setShowSendForm(true)}
+									className={cls("primaryButton", "flex items-center gap-2 px-6 py-2.5 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white rounded-xl font-medium transition-all duration-200 shadow-sm hover:shadow-md")}
+									style={styles.primary}
+								>
+									<Send className="w-4 h-4" />
+									{t("send")}
+								</button>
+							)}
 							<button
 								onClick={hideWalletDetails}
-								className="px-6 py-2.5 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl font-medium transition-all duration-200 hover:shadow-sm"
+								className={cls("secondaryButton", "px-6 py-2.5 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl font-medium transition-all duration-200 hover:shadow-sm")}
+								style={styles.button}
 							>
-								关闭
+								{t("close")}
 							</button>
 						</div>
 					</div>
 				</div>
 			)}
+
+			{/* 不支持的网络：切换网络或断开连接前不能继续操作 */}
+			{account.isConnected && isUnsupported && (
+				<div className={cls("overlay", "fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm")} role="alertdialog">
+					<div className={cls("dialog", "bg-white rounded-2xl p-6 max-w-sm w-full mx-4 shadow-2xl border border-gray-100")} style={styles.surface}>
+						<div className="flex items-center gap-4 mb-6">
+							<div className="w-12 h-12 bg-gradient-to-br from-red-100 to-orange-100 rounded-full flex items-center justify-center">
+								<AlertTriangle className="w-6 h-6 text-red-600" />
+							</div>
+							<div>
+								<h3 className="text-xl font-bold text-gray-900">{t("wrongNetwork")}</h3>
+								<p className="text-sm text-gray-500 mt-1">
+									{t("wrongNetworkHint", { network: currentNetwork?.chainName ?? network.chainId ?? t("unknownNetwork") })}
+								</p>
+							</div>
+						</div>
+
+						{network.error && network.error.code !== "USER_REJECTED" && (
+							<div className="mb-4 text-sm text-red-500">{t(WALLET_ERROR_MESSAGES[network.error.code])}</div>
+						)}
+
+						<div className="flex gap-3 justify-end">
+							<button
+								onClick={() => disconnect.disconnect()}
+								className={cls("secondaryButton", "px-6 py-2.5 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl font-medium transition-all duration-200 hover:shadow-sm")}
+								style={styles.button}
+							>
+								{t("disconnect")}
+							</button>
+							{defaultNetwork && (
+								<button
+									onClick={handleSwitchToDefault}
+									disabled={isSwitching}
+									className={cls("primaryButton", "px-6 py-2.5 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-blue-400 disabled:to-purple-400 text-white rounded-xl font-medium transition-all duration-200 shadow-sm hover:shadow-md")}
+									style={styles.primary}
+								>
+									{isSwitching ? t("switchingNetwork") : t("switchToNetwork", { network: defaultNetwork.chainName })}
+								</button>
+							)}
+						</div>
+					</div>
+				</div>
+			)}
+
+			{/* 错误提示 */}
+			<ErrorToast
+				className={classNames?.toast}
+				exclude={[
+					...(showWalletPicker ? ["connect" as const] : []),
+					...(showNetworkDropdown || isUnsupported ? ["switchNetwork" as const] : []),
+					...(showWatchForm ? ["watch" as const] : []),
+				]}
+			/>
 		</div>
 	);
 };
@@ -0,0 +1,24 @@
+import React, { useEffect, useState } from "react";
+import { createWalletStore, type WalletStoreApi, type WalletStoreOptions } from "../stores/walletStore";
+import { WalletStoreContext } from "../stores/context";
+
+interface WalletProviderProps {
+	store?: WalletStoreApi; // 使用已创建的 store，优先于 options
+	options?: WalletStoreOptions; // 只在首次渲染时使用
+	children: React.ReactNode;
+}
+
+// 为子组件提供独立的钱包 store，组件和 hooks 会优先使用最近的 Provider
+export const WalletProvider: React.FC<WalletProviderProps> = ({ store, options, children }) => {
+	const [instance] = useState(() => store ?? createWalletStore(options));
+
+	// 挂载后恢复持久化状态（ssr 模式下创建时跳过了恢复）并启动后台任务
+	useEffect(() => {
+		if (!instance.persist.hasHydrated()) {
+			void instance.persist.rehydrate();
+		}
+		return instance.start();
+	}, [instance]);
+
+	return <WalletStoreContext.Provider value={instance}>{children}</WalletStoreContext.Provider>;
+};
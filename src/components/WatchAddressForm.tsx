@@ -0,0 +1,53 @@
+import React, { useState } from "react";
+import { Eye } from "lucide-react";
+import { useWallet } from "../stores/context";
+import { useWatchOnly } from "../hooks";
+import { WALLET_ERROR_MESSAGES } from "../errors";
+import { AddressInput } from "./AddressInput";
+
+interface WatchAddressFormProps {
+	onDone: () => void;
+	onCancel: () => void;
+}
+
+// 输入地址或 ENS 名称进入只读模式
+export const WatchAddressForm: React.FC<WatchAddressFormProps> = ({ onDone, onCancel }) => {
+	const { isLoading, error, watch } = useWatchOnly();
+	const t = useWallet((state) => state.t);
+	const [value, setValue] = useState("");
+	const [resolved, setResolved] = useState<string | null>(null);
+
+	// 开始查看，失败时保留表单并显示错误
+	const handleWatch = async () => {
+		try {
+			await watch(resolved ?? value);
+			onDone();
+		} catch {
+			// 错误已记录在 store 中
+		}
+	};
+
+	return (
+		<div className="space-y-4">
+			<AddressInput value={value} onChange={setValue} onResolved={setResolved} disabled={isLoading} />
+			{error && <div className="text-sm text-red-500">{t(WALLET_ERROR_MESSAGES[error.code])}</div>}
+
+			<div className="flex gap-3 justify-end">
+				<button
+					onClick={onCancel}
+					className="px-6 py-2.5 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl font-medium transition-all duration-200 hover:shadow-sm"
+				>
+					{t("cancel")}
+				</button>
+				<button
+					onClick={handleWatch}
+					disabled={isLoading || !resolved}
+					className="flex items-center gap-2 px-6 py-2.5 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-blue-400 disabled:to-purple-400 text-white rounded-xl font-medium transition-all duration-200 shadow-sm hover:shadow-md"
+				>
+					<Eye className="w-4 h-4" />
+					{isLoading ? t("watchLoading") : t("watch")}
+				</button>
+			</div>
+		</div>
+	);
+};
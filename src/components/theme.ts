@@ -0,0 +1,50 @@
+import type { CSSProperties } from "react";
+
+// 主题变量，未设置时使用内置的 Tailwind 样式
+export interface WalletTheme {
+	primaryColor?: string; // 连接、发送等主按钮背景
+	dangerColor?: string; // 断开连接按钮背景
+	surfaceColor?: string; // 弹窗和下拉菜单背景
+	textColor?: string;
+	borderRadius?: string; // 按钮和弹窗圆角
+	fontFamily?: string;
+}
+
+// 可以替换默认样式的元素
+export type WalletSlot =
+	| "root"
+	| "connectButton"
+	| "networkButton"
+	| "networkMenu"
+	| "accountButton"
+	| "disconnectButton"
+	| "overlay"
+	| "dialog"
+	| "primaryButton"
+	| "secondaryButton"
+	| "toast";
+
+// 传入的 className 会替换对应元素的默认样式
+export type WalletClassNames = Partial<Record<WalletSlot, string>>;
+
+export const slotClass = (classNames: WalletClassNames | undefined, slot: WalletSlot, fallback: string) =>
+	classNames?.[slot] ?? fallback;
+
+// 内联样式对应的元素类别
+export type ThemeStyleKey = "root" | "primary" | "danger" | "surface" | "button";
+
+// 把主题变量转换为各类元素的内联样式
+export const themeStyles = (theme: WalletTheme = {}): Record<ThemeStyleKey, CSSProperties> => {
+	const radius: CSSProperties = theme.borderRadius ? { borderRadius: theme.borderRadius } : {};
+	return {
+		root: { fontFamily: theme.fontFamily, color: theme.textColor },
+		primary: { ...radius, ...(theme.primaryColor && { background: theme.primaryColor }) },
+		danger: { ...radius, ...(theme.dangerColor && { background: theme.dangerColor }) },
+		surface: {
+			...radius,
+			...(theme.surfaceColor && { background: theme.surfaceColor }),
+			...(theme.textColor && { color: theme.textColor }),
+		},
+		button: radius,
+	};
+};
@@ -0,0 +1,143 @@
+// 网络配置
+export interface ChainConfig {
+	chainId: string; // 十六进制，例如 0x1
+	chainName: string;
+	nativeCurrency: {
+		name: string;
+		symbol: string;
+		decimals: number;
+	};
+	rpcUrls: string[];
+	blockExplorerUrls: string[];
+	explorerApiUrl?: string; // Etherscan 兼容的 API 地址，用于查询交易记录，内置网络使用 Etherscan V2（需要 API Key）
+	iconUrl?: string;
+	testnet?: boolean;
+}
+
+// 内置网络，宿主应用可以从中挑选或自行定义
+export const CHAINS = {
+	ethereum: {
+		chainId: "0x1",
+		chainName: "Ethereum Mainnet",
+		nativeCurrency: {
+			name: "Ether",
+			symbol: "ETH",
+			decimals: 18,
+		},
+		rpcUrls: [
+			"https://ethereum-rpc.publicnode.com",
+			"https://cloudflare-eth.com",
+		],
+		blockExplorerUrls: ["https://etherscan.io/"],
+		explorerApiUrl: "https://api.etherscan.io/v2/api?chainid=1",
+	},
+	bsc: {
+		chainId: "0x38",
+		chainName: "Binance Smart Chain",
+		nativeCurrency: {
+			name: "BNB",
+			symbol: "BNB",
+			decimals: 18,
+		},
+		rpcUrls: ["https://bsc-dataseed1.binance.org/"],
+		blockExplorerUrls: ["https://bscscan.com/"],
+		explorerApiUrl: "https://api.etherscan.io/v2/api?chainid=56",
+	},
+	sepolia: {
+		chainId: "0xaa36a7",
+		chainName: "Sepolia Testnet",
+		nativeCurrency: {
+			name: "Sepolia Ether",
+			symbol: "ETH",
+			decimals: 18,
+		},
+		rpcUrls: [
+			"https://sepolia.gateway.tenderly.co/", 
+			"https://rpc.sepolia.org/",
+			"https://eth-sepolia.public.blastapi.io",
+			"https://sepolia.ethereum.publicnode.com"],
+		blockExplorerUrls: ["https://sepolia.etherscan.io/"],
+		explorerApiUrl: "https://api.etherscan.io/v2/api?chainid=11155111",
+		testnet: true,
+	},
+	arbitrum: {
+		chainId: "0xa4b1",
+		chainName: "Arbitrum One",
+		nativeCurrency: {
+			name: "Ether",
+			symbol: "ETH",
+			decimals: 18,
+		},
+		rpcUrls: ["https://arb1.arbitrum.io/rpc"],
+		blockExplorerUrls: ["https://arbiscan.io/"],
+		explorerApiUrl: "https://api.etherscan.io/v2/api?chainid=42161",
+	},
+	base: {
+		chainId: "0x2105",
+		chainName: "Base",
+		nativeCurrency: {
+			name: "Ether",
+			symbol: "ETH",
+			decimals: 18,
+		},
+		rpcUrls: ["https://mainnet.base.org"],
+		blockExplorerUrls: ["https://basescan.org/"],
+		explorerApiUrl: "https://api.etherscan.io/v2/api?chainid=8453",
+	},
+	polygon: {
+		chainId: "0x89",
+		chainName: "Polygon Mainnet",
+		nativeCurrency: {
+			name: "POL",
+			symbol: "POL",
+			decimals: 18,
+		},
+		rpcUrls: ["https://polygon-rpc.com/"],
+		blockExplorerUrls: ["https://polygonscan.com/"],
+		explorerApiUrl: "https://api.etherscan.io/v2/api?chainid=137",
+	},
+	anvil: {
+		chainId: "0x7a69",
+		chainName: "Anvil Local",
+		nativeCurrency: {
+			name: "Ether",
+			symbol: "ETH",
+			decimals: 18,
+		},
+		rpcUrls: ["http://127.0.0.1:8545"],
+		blockExplorerUrls: [],
+		testnet: true,
+	},
+} satisfies Record<string, ChainConfig>;
+
+// 默认启用的网络
+export const NETWORKS: Record<string, ChainConfig> = {
+	ethereum: CHAINS.ethereum,
+	bsc: CHAINS.bsc,
+	sepolia: CHAINS.sepolia,
+};
+
+// 根据 key 或 chainId 查找网络
+export const findChain = (chains: Record<string, ChainConfig>, keyOrChainId: string | null) => {
+	if (!keyOrChainId) return null;
+	if (chains[keyOrChainId]) return chains[keyOrChainId];
+	const chainId = keyOrChainId.toLowerCase();
+	return Object.values(chains).find(chain => chain.chainId.toLowerCase() === chainId) ?? null;
+};
+
+// wallet_addEthereumChain 只接受 EIP-3085 定义的字段
+export const toAddEthereumChainParameter = (chain: ChainConfig) => ({
+	chainId: chain.chainId,
+	chainName: chain.chainName,
+	nativeCurrency: chain.nativeCurrency,
+	rpcUrls: chain.rpcUrls,
+	blockExplorerUrls: chain.blockExplorerUrls.length > 0 ? chain.blockExplorerUrls : undefined,
+	iconUrls: chain.iconUrl ? [chain.iconUrl] : undefined,
+});
+
+// 生成区块浏览器链接，网络未配置浏览器时返回 null
+export const buildExplorerUrl = (chain: ChainConfig | null, type: "tx" | "address" | "token", value: string) => {
+	const baseUrl = chain?.blockExplorerUrls[0];
+	if (!baseUrl) return null;
+	return `${baseUrl.replace(/\/+$/, "")}/${type}/${value}`;
+};
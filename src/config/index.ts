@@ -0,0 +1,66 @@
+import type { ChainConfig } from "./chains";
+import type { TokenInfo } from "../tokens";
+import type { SiweConfig } from "../auth/siwe";
+import type { EnsConfig } from "../ens";
+import type { HistoryConfig } from "../history";
+import type { PriceConfig } from "../prices";
+import type { ApprovalsConfig } from "../approvals";
+import type { NftConfig } from "../nfts";
+import type { ContractsConfig } from "../contracts";
+import type { MessageCatalogs } from "../i18n";
+
+export { CHAINS, NETWORKS, findChain, toAddEthereumChainParameter, buildExplorerUrl } from "./chains";
+export type { ChainConfig } from "./chains";
+
+// 连接有效期，未配置的项不限制
+export interface SessionPolicy {
+	maxAge?: number; // 连接有效期（毫秒），从连接时算起，到期自动断开
+	idleTimeout?: number; // 无操作超时（毫秒），任一标签页有操作都算活跃
+	rememberDisconnect?: number; // 主动断开后多久内不静默重连（毫秒），默认一直不重连
+}
+
+export interface AutoRefreshConfig {
+	mode: "block" | "interval" | "off";
+	interval?: number; // interval 模式的轮询间隔（毫秒），默认 15000
+}
+
+// 宿主应用配置
+export interface WalletConfig {
+	// 可用网络，key 用于网络切换下拉框，默认使用 NETWORKS
+	chains?: Record<string, ChainConfig>;
+	// 应用支持的网络（key 或 chainId），连接到其他网络时提示切换；
+	// 与 defaultChain 都未配置时不限制网络，只配置 defaultChain 时支持 chains 中的全部网络
+	requiredChains?: string[];
+	// 切换提示的目标网络（key 或 chainId），默认为第一个支持的网络
+	defaultChain?: string;
+	// 连接钱包后如果在不支持的网络上，自动请求切换到默认网络，默认 false
+	autoSwitchChain?: boolean;
+	// 额外的代币列表，按 chainId 分组，会与内置代币合并
+	tokens?: Record<string, TokenInfo[]>;
+	// 交易需要的确认数，默认 1
+	confirmations?: number;
+	// 轮询间隔（毫秒），默认 4000
+	pollingInterval?: number;
+	// 余额自动刷新：block 为每个新区块刷新，interval 为定时轮询，off 为关闭，默认 block
+	autoRefresh?: AutoRefreshConfig;
+	// 界面语言，内置 zh 和 en，默认 zh
+	locale?: string;
+	// 额外或覆盖的消息目录，按语言分组，例如 { ja: {...}, en: { connectWallet: "Connect" } }
+	messages?: MessageCatalogs;
+	// ENS 查询始终走以太坊主网
+	ens?: EnsConfig;
+	// Sign-In with Ethereum，未配置时 signIn 不可用
+	siwe?: SiweConfig;
+	// 交易记录：区块浏览器 API Key、自定义获取方式等，API 地址来自网络配置的 explorerApiUrl
+	history?: HistoryConfig;
+	// 法币估值：价格来源和显示货币，默认通过以太坊主网的 Chainlink 喂价查询
+	prices?: PriceConfig;
+	// 授权管理：已知的授权对象和 Approval 事件扫描范围
+	approvals?: ApprovalsConfig;
+	// NFT：按网络配置的合约或自定义索引服务
+	nfts?: NftConfig;
+	// 合约读取缓存
+	contracts?: ContractsConfig;
+	// 连接有效期和无操作超时，到期后断开连接并清除持久化的连接状态
+	sessionPolicy?: SessionPolicy;
+}
@@ -0,0 +1,35 @@
+// EIP-6963 多钱包发现
+// 参考: https://eips.ethereum.org/EIPS/eip-6963
+
+import type { EIP1193Provider } from "./types";
+
+export interface EIP6963ProviderInfo {
+	uuid: string;
+	name: string;
+	icon: string; // data URI
+	rdns: string; // 反向域名，例如 io.metamask
+}
+
+export interface EIP6963ProviderDetail {
+	info: EIP6963ProviderInfo;
+	provider: EIP1193Provider;
+}
+
+type EIP6963AnnounceProviderEvent = CustomEvent<EIP6963ProviderDetail>;
+
+// 监听钱包广播并主动请求一次，返回取消监听的函数
+export const requestProviders = (onAnnounce: (detail: EIP6963ProviderDetail) => void) => {
+	if (typeof window === "undefined") return () => {};
+
+	const handleAnnounce = (event: Event) => {
+		const { detail } = event as EIP6963AnnounceProviderEvent;
+		if (detail?.info?.rdns && detail.provider) {
+			onAnnounce(detail);
+		}
+	};
+
+	window.addEventListener("eip6963:announceProvider", handleAnnounce);
+	window.dispatchEvent(new Event("eip6963:requestProvider"));
+
+	return () => window.removeEventListener("eip6963:announceProvider", handleAnnounce);
+};
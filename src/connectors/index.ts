@@ -0,0 +1,19 @@
+import type { Connector } from "./types";
+
+export type { Connector, ConnectorEvents, ConnectorEventName, EIP1193Provider, ProviderMessage, RequestArguments } from "./types";
+export type { EIP6963ProviderDetail, EIP6963ProviderInfo } from "./eip6963";
+export { requestProviders } from "./eip6963";
+export { injected, eip6963 } from "./injected";
+export type { InjectedConnectorOptions } from "./injected";
+export { privateKeyConnector } from "./privateKey";
+export type { PrivateKeyConnectorOptions } from "./privateKey";
+export { watchOnlyConnector } from "./watchOnly";
+export type { WatchOnlyConnectorOptions } from "./watchOnly";
+
+// 可供用户选择的连接器
+// 发现 EIP-6963 钱包时隐藏通用的 window.ethereum 连接器，避免同一个钱包出现两次；只读连接器不在选择列表中
+export const getVisibleConnectors = (connectors: Connector[]) => {
+	const available = connectors.filter(connector => connector.isAvailable() && connector.type !== "watchOnly");
+	const hasAnnounced = available.some(connector => connector.type === "eip6963");
+	return hasAnnounced ? available.filter(connector => connector.type !== "injected") : available;
+};
@@ -0,0 +1,66 @@
+import type { EIP6963ProviderDetail } from "./eip6963";
+import type { Connector, EIP1193Provider } from "./types";
+
+export interface InjectedConnectorOptions {
+	id?: string;
+	name?: string;
+	icon?: string;
+	type?: string;
+	getProvider?: () => EIP1193Provider | undefined;
+}
+
+// 默认使用 window.ethereum
+const getWindowProvider = () => {
+	return typeof window !== "undefined" ? window.ethereum : undefined;
+};
+
+// 浏览器注入钱包连接器
+export const injected = (options: InjectedConnectorOptions = {}): Connector => {
+	const {
+		id = "injected",
+		name = "Browser Wallet",
+		icon,
+		type = "injected",
+		getProvider = getWindowProvider,
+	} = options;
+
+	const requireProvider = () => {
+		const provider = getProvider();
+		if (!provider) {
+			throw new Error("未检测到钱包");
+		}
+		return provider;
+	};
+
+	return {
+		id,
+		name,
+		icon,
+		type,
+		isAvailable: () => !!getProvider(),
+		connect: async () => {
+			const provider = requireProvider();
+			const accounts = await provider.request<string[]>({ method: "eth_requestAccounts" });
+			const chainId = await provider.request<string>({ method: "eth_chainId" });
+			return { accounts, chainId };
+		},
+		// 注入钱包无法由 DApp 主动断开，这里只需清除本地状态
+		disconnect: async () => {},
+		getAccounts: () => requireProvider().request<string[]>({ method: "eth_accounts" }),
+		getChainId: () => requireProvider().request<string>({ method: "eth_chainId" }),
+		request: (args) => requireProvider().request(args),
+		on: (event, listener) => getProvider()?.on(event, listener),
+		off: (event, listener) => getProvider()?.removeListener(event, listener),
+	};
+};
+
+// 通过 EIP-6963 发现的钱包，使用 rdns 作为连接器 id
+export const eip6963 = ({ info, provider }: EIP6963ProviderDetail): Connector => {
+	return injected({
+		id: info.rdns,
+		name: info.name,
+		icon: info.icon,
+		type: "eip6963",
+		getProvider: () => provider,
+	});
+};
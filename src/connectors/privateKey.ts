@@ -0,0 +1,89 @@
+import { ethers } from "ethers";
+import type { Connector } from "./types";
+
+export interface PrivateKeyConnectorOptions {
+	privateKey: string;
+	rpcUrl: string;
+	id?: string;
+	name?: string;
+}
+
+interface TransactionParams {
+	to?: string;
+	data?: string;
+	value?: string;
+	gas?: string;
+	gasPrice?: string;
+	maxFeePerGas?: string;
+	maxPriorityFeePerGas?: string;
+	nonce?: string;
+}
+
+// 本地开发用的私钥签名连接器（例如连接 Anvil / Hardhat 节点），请勿在生产环境使用
+export const privateKeyConnector = (options: PrivateKeyConnectorOptions): Connector => {
+	const { privateKey, rpcUrl, id = "privateKey", name = "Dev Signer" } = options;
+	const provider = new ethers.JsonRpcProvider(rpcUrl);
+	const wallet = new ethers.Wallet(privateKey, provider);
+
+	const getChainId = async () => {
+		const network = await provider.getNetwork();
+		return ethers.toQuantity(network.chainId);
+	};
+
+	const request = async (method: string, params: unknown[]): Promise<unknown> => {
+		switch (method) {
+			case "eth_requestAccounts":
+			case "eth_accounts":
+				return [wallet.address];
+			case "eth_chainId":
+				return getChainId();
+			case "personal_sign": {
+				const message = params[0] as string;
+				return wallet.signMessage(ethers.isHexString(message) ? ethers.getBytes(message) : message);
+			}
+			case "eth_signTypedData_v4": {
+				const { domain, types, message } = JSON.parse(params[1] as string);
+				// ethers 会自动推导 EIP712Domain，传入会报错
+				delete types.EIP712Domain;
+				return wallet.signTypedData(domain, types, message);
+			}
+			case "eth_sendTransaction": {
+				const tx = params[0] as TransactionParams;
+				const response = await wallet.sendTransaction({
+					to: tx.to,
+					data: tx.data,
+					value: tx.value,
+					gasLimit: tx.gas,
+					gasPrice: tx.gasPrice,
+					maxFeePerGas: tx.maxFeePerGas,
+					maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+					nonce: tx.nonce !== undefined ? Number(tx.nonce) : undefined,
+				});
+				return response.hash;
+			}
+			case "wallet_switchEthereumChain":
+			case "wallet_addEthereumChain":
+				throw Object.assign(new Error("私钥连接器不支持切换网络"), { code: 4200 });
+			default:
+				return provider.send(method, params);
+		}
+	};
+
+	return {
+		id,
+		name,
+		type: "privateKey",
+		isAvailable: () => true,
+		connect: async () => ({ accounts: [wallet.address], chainId: await getChainId() }),
+		disconnect: async () => {},
+		getAccounts: async () => [wallet.address],
+		getChainId,
+		request: async <T,>(args: { method: string; params?: unknown }) => {
+			const params = Array.isArray(args.params) ? args.params : [];
+			return (await request(args.method, params)) as T;
+		},
+		// 私钥签名器不会推送账户或网络变化事件
+		on: () => {},
+		off: () => {},
+	};
+};
@@ -0,0 +1,63 @@
+// EIP-1193 请求参数
+export interface RequestArguments {
+	method: string;
+	params?: unknown[] | Record<string, unknown>;
+}
+
+// EIP-1193 provider（注入的钱包、WalletConnect 等都实现这个接口）
+export interface EIP1193Provider {
+	request: <T = unknown>(args: RequestArguments) => Promise<T>;
+	on: (eventName: string, handler: (...args: never[]) => void) => void;
+	removeListener: (eventName: string, handler: (...args: never[]) => void) => void;
+	isMetaMask?: boolean;
+}
+
+// 扩展 Window 接口以包含 ethereum
+declare global {
+	interface Window {
+		ethereum?: EIP1193Provider;
+	}
+}
+
+// EIP-1193 message 事件，例如 eth_subscription 推送
+export interface ProviderMessage {
+	type: string;
+	data: unknown;
+}
+
+// 连接器事件
+export interface ConnectorEvents {
+	connect: (info: { chainId: string }) => void;
+	disconnect: (error?: unknown) => void;
+	accountsChanged: (accounts: string[]) => void;
+	chainChanged: (chainId: string) => void;
+	message: (message: ProviderMessage) => void;
+}
+
+export type ConnectorEventName = keyof ConnectorEvents;
+
+// 连接器：store 通过当前激活的连接器访问钱包，不再直接使用 window.ethereum
+export interface Connector {
+	id: string;
+	name: string;
+	icon?: string;
+	type: string; // 例如 injected、eip6963、privateKey、walletConnect
+
+	// 是否可用（例如浏览器插件是否已安装）
+	isAvailable: () => boolean;
+
+	// 请求授权并返回账户和网络，会触发钱包弹窗
+	connect: () => Promise<{ accounts: string[]; chainId: string }>;
+	disconnect: () => Promise<void>;
+
+	// 静默获取，不触发弹窗
+	getAccounts: () => Promise<string[]>;
+	getChainId: () => Promise<string>;
+
+	// 透传 JSON-RPC 请求，签名与切换网络也走这里
+	request: <T = unknown>(args: RequestArguments) => Promise<T>;
+
+	// 事件订阅
+	on: <E extends ConnectorEventName>(event: E, listener: ConnectorEvents[E]) => void;
+	off: <E extends ConnectorEventName>(event: E, listener: ConnectorEvents[E]) => void;
+}
@@ -0,0 +1,102 @@
+import { ethers } from "ethers";
+import { findChain, type ChainConfig } from "../config";
+import type { Connector, ConnectorEventName, ConnectorEvents } from "./types";
+
+export interface WatchOnlyConnectorOptions {
+	address: string;
+	chains: Record<string, ChainConfig>;
+	chainId: string; // 初始网络，必须在 chains 中
+	id?: string;
+	name?: string;
+}
+
+// 需要用户签名的方法，只读模式下全部拒绝
+const SIGNING_METHODS = new Set([
+	"personal_sign",
+	"eth_sign",
+	"eth_signTypedData",
+	"eth_signTypedData_v3",
+	"eth_signTypedData_v4",
+	"eth_sendTransaction",
+	"eth_signTransaction",
+	"wallet_requestPermissions",
+	"wallet_addEthereumChain",
+	"wallet_watchAsset",
+]);
+
+// 只读连接器：通过网络配置中的公共 RPC 查询指定地址，不能签名
+export const watchOnlyConnector = (options: WatchOnlyConnectorOptions): Connector => {
+	const { address, chains, id = "watchOnly", name = "Watch-only" } = options;
+
+	const createProvider = (chain: ChainConfig) => {
+		return new ethers.JsonRpcProvider(chain.rpcUrls[0], Number(BigInt(chain.chainId)), { staticNetwork: true });
+	};
+
+	let chain = findChain(chains, options.chainId);
+	if (!chain) {
+		throw new Error(`未配置的网络: ${options.chainId}`);
+	}
+	let provider = createProvider(chain);
+
+	const listeners: { [E in ConnectorEventName]: Set<ConnectorEvents[E]> } = {
+		connect: new Set(),
+		disconnect: new Set(),
+		accountsChanged: new Set(),
+		chainChanged: new Set(),
+		message: new Set(),
+	};
+
+	// 只读模式切换网络即切换 RPC，不需要钱包确认
+	const switchChain = (chainId: string) => {
+		const next = findChain(chains, chainId);
+		if (!next) {
+			throw Object.assign(new Error(`未配置的网络: ${chainId}`), { code: 4902 });
+		}
+		if (next.chainId === chain!.chainId) return;
+		provider.destroy();
+		chain = next;
+		provider = createProvider(next);
+		listeners.chainChanged.forEach(listener => listener(next.chainId));
+	};
+
+	const request = async (method: string, params: unknown[]): Promise<unknown> => {
+		if (SIGNING_METHODS.has(method)) {
+			throw Object.assign(new Error("只读模式不能签名"), { code: 4100 });
+		}
+		switch (method) {
+			case "eth_requestAccounts":
+			case "eth_accounts":
+				return [address];
+			case "eth_chainId":
+				return chain!.chainId;
+			case "wallet_switchEthereumChain":
+				switchChain((params[0] as { chainId: string }).chainId);
+				return null;
+			default:
+				return provider.send(method, params);
+		}
+	};
+
+	return {
+		id,
+		name,
+		type: "watchOnly",
+		isAvailable: () => true,
+		connect: async () => ({ accounts: [address], chainId: chain!.chainId }),
+		disconnect: async () => {
+			provider.destroy();
+		},
+		getAccounts: async () => [address],
+		getChainId: async () => chain!.chainId,
+		request: async <T,>(args: { method: string; params?: unknown }) => {
+			const params = Array.isArray(args.params) ? args.params : [];
+			return (await request(args.method, params)) as T;
+		},
+		on: (event, listener) => {
+			listeners[event].add(listener);
+		},
+		off: (event, listener) => {
+			listeners[event].delete(listener);
+		},
+	};
+};
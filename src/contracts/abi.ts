@@ -0,0 +1,86 @@
+// 从 as const 声明的 JSON ABI 推断参数和返回值类型
+
+export interface AbiParameter {
+	readonly name?: string;
+	readonly type: string;
+	readonly internalType?: string;
+	readonly indexed?: boolean;
+	readonly components?: readonly AbiParameter[];
+}
+
+export interface AbiFunction {
+	readonly type: "function";
+	readonly name: string;
+	readonly inputs: readonly AbiParameter[];
+	readonly outputs?: readonly AbiParameter[];
+	readonly stateMutability: "pure" | "view" | "nonpayable" | "payable";
+}
+
+// 事件、错误、构造函数等其他条目只需要 type 字段
+export interface AbiItem {
+	readonly type: string;
+	readonly name?: string;
+}
+
+export type Abi = readonly (AbiFunction | AbiItem)[];
+
+// 也支持 ethers 的人类可读 ABI，此时参数和返回值不做推断
+export type ContractAbi = Abi | readonly string[];
+
+// 整数作为参数时也接受 number，返回值统一为 bigint
+type ParameterMode = "input" | "output";
+
+type PrimitiveType<TType extends string, TMode extends ParameterMode> =
+	TType extends `uint${string}` | `int${string}` ? (TMode extends "input" ? bigint | number : bigint)
+	: TType extends "bool" ? boolean
+	: TType extends "address" | "string" | `bytes${string}` ? string
+	: unknown;
+
+type TupleType<TComponents extends readonly AbiParameter[], TMode extends ParameterMode> = {
+	[K in TComponents[number] as K["name"] & string]: AbiParameterType<K, TMode>;
+};
+
+type AbiTypeToPrimitive<TParameter extends AbiParameter, TType extends string, TMode extends ParameterMode> =
+	TType extends `${infer Inner}[${string}]`
+		? readonly AbiTypeToPrimitive<TParameter, Inner, TMode>[]
+		: TType extends "tuple"
+			? TParameter["components"] extends readonly AbiParameter[] ? TupleType<TParameter["components"], TMode> : unknown
+			: PrimitiveType<TType, TMode>;
+
+export type AbiParameterType<TParameter extends AbiParameter, TMode extends ParameterMode = "output"> =
+	AbiTypeToPrimitive<TParameter, TParameter["type"], TMode>;
+
+export type AbiParametersType<TParameters extends readonly AbiParameter[], TMode extends ParameterMode = "output"> = {
+	-readonly [K in keyof TParameters]: TParameters[K] extends AbiParameter ? AbiParameterType<TParameters[K], TMode> : never;
+};
+
+type FunctionItems<TAbi extends ContractAbi> = TAbi extends Abi ? Extract<TAbi[number], AbiFunction> : never;
+
+// 只读函数和会修改状态的函数名
+export type ReadFunctionName<TAbi extends ContractAbi> = TAbi extends Abi
+	? Extract<FunctionItems<TAbi>, { stateMutability: "view" | "pure" }>["name"]
+	: string;
+
+export type WriteFunctionName<TAbi extends ContractAbi> = TAbi extends Abi
+	? Extract<FunctionItems<TAbi>, { stateMutability: "nonpayable" | "payable" }>["name"]
+	: string;
+
+type FunctionItem<TAbi extends ContractAbi, TName extends string> = Extract<FunctionItems<TAbi>, { name: TName }>;
+
+// 函数参数，重载时为各重载参数的联合
+export type ContractFunctionArgs<TAbi extends ContractAbi, TName extends string> = TAbi extends Abi
+	? FunctionItem<TAbi, TName> extends infer TItem extends AbiFunction
+		? AbiParametersType<TItem["inputs"], "input">
+		: never
+	: readonly unknown[];
+
+// 函数返回值：没有返回值为 void，一个返回值直接返回，多个返回值为元组
+export type ContractFunctionResult<TAbi extends ContractAbi, TName extends string> = TAbi extends Abi
+	? FunctionItem<TAbi, TName> extends infer TItem extends AbiFunction
+		? TItem["outputs"] extends readonly [] | undefined
+			? void
+			: TItem["outputs"] extends readonly [infer TOutput extends AbiParameter]
+				? AbiParameterType<TOutput>
+				: TItem["outputs"] extends readonly AbiParameter[] ? AbiParametersType<TItem["outputs"]> : unknown
+		: never
+	: unknown;
@@ -0,0 +1,75 @@
+import type { ContractAbi, ContractFunctionArgs, ReadFunctionName, WriteFunctionName } from "./abi";
+
+export type {
+	Abi,
+	AbiFunction,
+	AbiItem,
+	AbiParameter,
+	AbiParameterType,
+	AbiParametersType,
+	ContractAbi,
+	ContractFunctionArgs,
+	ContractFunctionResult,
+	ReadFunctionName,
+	WriteFunctionName,
+} from "./abi";
+
+export interface ContractsConfig {
+	cacheTtl?: number; // 读取结果的缓存时间（毫秒），默认 4 秒
+}
+
+export interface ReadContractParams<TAbi extends ContractAbi, TName extends ReadFunctionName<TAbi>> {
+	abi: TAbi;
+	address: string;
+	functionName: TName;
+	args?: ContractFunctionArgs<TAbi, TName>;
+	chainId?: string; // 默认当前网络，与当前网络不同时通过网络配置的 RPC 读取
+	force?: boolean; // 跳过缓存
+}
+
+export interface WriteContractParams<TAbi extends ContractAbi, TName extends WriteFunctionName<TAbi>> {
+	abi: TAbi;
+	address: string;
+	functionName: TName;
+	args?: ContractFunctionArgs<TAbi, TName>;
+	value?: bigint; // payable 函数附带的原生币（wei）
+	chainId?: string; // 与当前网络不同时先切换网络
+	description?: string; // 交易记录中显示的描述，默认为函数名
+}
+
+export interface ReadCache {
+	get: <T>(key: string, load: () => Promise<T>, force?: boolean) => Promise<T>;
+	clear: () => void;
+}
+
+const DEFAULT_CACHE_TTL = 4000;
+
+// 参数序列化为缓存 key，bigint 转为字符串
+export const serializeArgs = (args: readonly unknown[] | undefined) =>
+	JSON.stringify(args ?? [], (_, value) => typeof value === "bigint" ? `${value}n` : value);
+
+// 合约读取的缓存和请求合并
+export const createReadCache = (cacheTtl = DEFAULT_CACHE_TTL): ReadCache => {
+	const cache = new Map<string, { value: unknown; expiresAt: number }>();
+	const inflight = new Map<string, Promise<unknown>>();
+
+	return {
+		get: async <T,>(key: string, load: () => Promise<T>, force = false) => {
+			const hit = cache.get(key);
+			if (!force && hit && hit.expiresAt > Date.now()) return hit.value as T;
+
+			const pending = inflight.get(key);
+			if (pending) return pending as Promise<T>;
+
+			const request = load()
+				.then((value) => {
+					cache.set(key, { value, expiresAt: Date.now() + cacheTtl });
+					return value;
+				})
+				.finally(() => inflight.delete(key));
+			inflight.set(key, request);
+			return request;
+		},
+		clear: () => cache.clear(),
+	};
+};
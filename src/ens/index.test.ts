@@ -0,0 +1,12 @@
+import { describe, expect, it } from "vitest";
+import { createEnsResolver, isEnsName } from ".";
+
+describe("createEnsResolver", () => {
+	// 无效名称在规范化时就返回 null，不会发起请求
+	it("resolves invalid names to null instead of throwing", async () => {
+		const resolver = createEnsResolver("http://127.0.0.1:1");
+		expect(isEnsName("a..eth")).toBe(true);
+		await expect(resolver.resolveName("a..eth")).resolves.toBeNull();
+		await expect(resolver.getAvatar("a..eth")).resolves.toBeNull();
+	});
+});
@@ -0,0 +1,125 @@
+import { ethers } from "ethers";
+
+export interface EnsConfig {
+	rpcUrl?: string; // 主网 RPC，默认使用链配置中的以太坊主网 RPC
+	cacheTtl?: number; // 缓存时间（毫秒），默认 5 分钟
+}
+
+export interface EnsProfile {
+	ensName: string | null;
+	ensAvatar: string | null;
+}
+
+// ENS 解析器，无论钱包连接哪个网络都通过主网只读 provider 查询
+export interface EnsResolver {
+	lookupAddress: (address: string) => Promise<string | null>;
+	resolveName: (name: string) => Promise<string | null>;
+	getAvatar: (name: string) => Promise<string | null>;
+	getProfile: (address: string) => Promise<EnsProfile>;
+	clearCache: () => void;
+}
+
+const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
+// 缓存的最大条目数，超出时先清理过期条目，再淘汰最早写入的条目
+const MAX_CACHE_ENTRIES = 500;
+
+// 是否像 ENS 名称（包含点且不是地址）
+export const isEnsName = (value: string) => {
+	const name = value.trim();
+	return name.includes(".") && !ethers.isAddress(name);
+};
+
+// 规范化 ENS 名称，无效名称返回 null
+const normalizeName = (name: string) => {
+	try {
+		return ethers.ensNormalize(name.trim());
+	} catch {
+		return null;
+	}
+};
+
+export const createEnsResolver = (rpcUrl: string, cacheTtl = DEFAULT_CACHE_TTL): EnsResolver => {
+	let provider: ethers.JsonRpcProvider | null = null;
+	const cache = new Map<string, { value: string | null; expiresAt: number }>();
+	const inflight = new Map<string, Promise<string | null>>();
+
+	// 延迟创建 provider，避免未使用 ENS 时发起请求
+	const getProvider = () => {
+		if (!provider) {
+			provider = new ethers.JsonRpcProvider(rpcUrl, ethers.Network.from(1), { staticNetwork: true });
+		}
+		return provider;
+	};
+
+	const store = (key: string, value: string | null) => {
+		const now = Date.now();
+		cache.delete(key);
+		if (cache.size >= MAX_CACHE_ENTRIES) {
+			cache.forEach((entry, entryKey) => {
+				if (entry.expiresAt <= now) cache.delete(entryKey);
+			});
+		}
+		while (cache.size >= MAX_CACHE_ENTRIES) {
+			cache.delete(cache.keys().next().value!);
+		}
+		cache.set(key, { value, expiresAt: now + cacheTtl });
+	};
+
+	// 带缓存和请求合并的查询
+	const cached = async (key: string, load: () => Promise<string | null>) => {
+		const hit = cache.get(key);
+		if (hit && hit.expiresAt > Date.now()) return hit.value;
+		if (hit) cache.delete(key);
+
+		const pending = inflight.get(key);
+		if (pending) return pending;
+
+		const request = load()
+			.then((value) => {
+				store(key, value);
+				return value;
+			})
+			.finally(() => inflight.delete(key));
+		inflight.set(key, request);
+		return request;
+	};
+
+	const lookupAddress = (address: string) => {
+		return cached(`name:${address.toLowerCase()}`, () => getProvider().lookupAddress(address));
+	};
+
+	// 无效名称返回 null，不抛出
+	const resolveName = async (name: string) => {
+		const normalized = normalizeName(name);
+		if (!normalized) return null;
+		return cached(`address:${normalized}`, () => getProvider().resolveName(normalized));
+	};
+
+	const getAvatar = async (name: string) => {
+		const normalized = normalizeName(name);
+		if (!normalized) return null;
+		return cached(`avatar:${normalized}`, async () => {
+			const resolver = await getProvider().getResolver(normalized);
+			return resolver ? resolver.getAvatar() : null;
+		});
+	};
+
+	return {
+		lookupAddress,
+		resolveName,
+		getAvatar,
+		getProfile: async (address) => {
+			const ensName = await lookupAddress(address);
+			let ensAvatar: string | null = null;
+			if (ensName) {
+				try {
+					ensAvatar = await getAvatar(ensName);
+				} catch (error) {
+					console.log("获取 ENS 头像失败:", error);
+				}
+			}
+			return { ensName, ensAvatar };
+		},
+		clearCache: () => cache.clear(),
+	};
+};
@@ -0,0 +1,144 @@
+import type { MessageKey } from "../i18n";
+
+// 统一的错误码，由 EIP-1193 / JSON-RPC 错误码和 ethers 错误归一化而来
+export type WalletErrorCode =
+	| "USER_REJECTED" // 4001 用户拒绝
+	| "UNAUTHORIZED" // 4100 未授权
+	| "UNSUPPORTED_METHOD" // 4200 / -32601 钱包不支持该方法
+	| "DISCONNECTED" // 4900 / 4901 钱包与链断开
+	| "REQUEST_PENDING" // -32002 钱包中已有待处理的请求
+	| "UNRECOGNIZED_CHAIN" // 4902 钱包中没有该网络
+	| "CHAIN_NOT_CONFIGURED" // 网络不在配置中
+	| "NO_WALLET" // 没有可用的钱包
+	| "NOT_CONNECTED" // 钱包未连接
+	| "READ_ONLY" // 只读模式不能签名
+	| "SESSION_EXPIRED" // 连接超过有效期或长时间无操作
+	| "INVALID_ADDRESS" // 无效的地址或 ENS 名称
+	| "TOKEN_NOT_FOUND" // 当前网络的代币列表中没有该代币
+	| "INVALID_AMOUNT" // 数量格式错误或超出允许范围
+	| "SIWE_NOT_CONFIGURED" // 未配置 Sign-In with Ethereum
+	| "SIGNATURE_INVALID" // 签名未通过校验
+	| "ACCOUNT_CHANGED" // 操作期间账户已变化
+	| "RPC_ERROR" // 节点或网络故障
+	| "EXPLORER_UNAVAILABLE" // 网络未配置区块浏览器 API
+	| "API_KEY_REQUIRED" // 区块浏览器需要 API Key
+	| "RATE_LIMITED" // 区块浏览器请求过于频繁
+	| "UNKNOWN";
+
+// 会记录错误状态的操作
+export type WalletAction =
+	| "connect"
+	| "updateWalletState"
+	| "switchNetwork"
+	| "getBalance"
+	| "getENSInfo"
+	| "requestAccounts"
+	| "watch";
+
+export class WalletError extends Error {
+	readonly code: WalletErrorCode;
+	readonly rpcCode?: number | string; // 原始错误码
+	readonly action?: WalletAction;
+
+	constructor(code: WalletErrorCode, message: string, options: { rpcCode?: number | string; action?: WalletAction; cause?: unknown } = {}) {
+		super(message, { cause: options.cause });
+		this.name = "WalletError";
+		this.code = code;
+		this.rpcCode = options.rpcCode;
+		this.action = options.action;
+	}
+}
+
+export const isWalletError = (error: unknown): error is WalletError => error instanceof WalletError;
+
+// 各错误码对应的提示文案
+export const WALLET_ERROR_MESSAGES: Record<WalletErrorCode, MessageKey> = {
+	USER_REJECTED: "errorUserRejected",
+	UNAUTHORIZED: "errorUnauthorized",
+	UNSUPPORTED_METHOD: "errorUnsupportedMethod",
+	DISCONNECTED: "errorDisconnected",
+	REQUEST_PENDING: "errorRequestPending",
+	UNRECOGNIZED_CHAIN: "errorUnrecognizedChain",
+	CHAIN_NOT_CONFIGURED: "errorChainNotConfigured",
+	NO_WALLET: "installWallet",
+	NOT_CONNECTED: "walletNotConnected",
+	SESSION_EXPIRED: "sessionExpired",
+	READ_ONLY: "watchOnlyCannotSign",
+	INVALID_ADDRESS: "invalidAddress",
+	TOKEN_NOT_FOUND: "errorTokenNotFound",
+	INVALID_AMOUNT: "errorInvalidAmount",
+	SIWE_NOT_CONFIGURED: "siweNotConfigured",
+	SIGNATURE_INVALID: "signatureInvalid",
+	ACCOUNT_CHANGED: "accountChangedDuringSignIn",
+	RPC_ERROR: "errorRpc",
+	EXPLORER_UNAVAILABLE: "historyUnavailable",
+	API_KEY_REQUIRED: "historyApiKeyRequired",
+	RATE_LIMITED: "historyRateLimited",
+	UNKNOWN: "errorUnknown",
+};
+
+const RPC_CODES: Record<number, WalletErrorCode> = {
+	4001: "USER_REJECTED",
+	4100: "UNAUTHORIZED",
+	4200: "UNSUPPORTED_METHOD",
+	4900: "DISCONNECTED",
+	4901: "DISCONNECTED",
+	4902: "UNRECOGNIZED_CHAIN",
+	[-32002]: "REQUEST_PENDING",
+	[-32601]: "UNSUPPORTED_METHOD",
+};
+
+const ETHERS_CODES: Record<string, WalletErrorCode> = {
+	ACTION_REJECTED: "USER_REJECTED",
+	NETWORK_ERROR: "RPC_ERROR",
+	SERVER_ERROR: "RPC_ERROR",
+	TIMEOUT: "RPC_ERROR",
+	UNSUPPORTED_OPERATION: "UNSUPPORTED_METHOD",
+};
+
+type ErrorLike = {
+	code?: unknown;
+	message?: unknown;
+	error?: unknown;
+	info?: { error?: unknown };
+	data?: { originalError?: unknown };
+	cause?: unknown;
+};
+
+// 钱包和 ethers 会把原始错误包在 error / info.error / data.originalError / cause 中
+const nestedErrors = (error: ErrorLike) => [error.error, error.info?.error, error.data?.originalError, error.cause];
+
+// 查找可以识别的错误码，优先使用最外层的
+const findCode = (error: unknown, depth = 0): { code: WalletErrorCode; rpcCode: number | string } | null => {
+	if (!error || typeof error !== "object" || depth > 4) return null;
+	const { code } = error as ErrorLike;
+	if (typeof code === "number") {
+		if (RPC_CODES[code]) return { code: RPC_CODES[code], rpcCode: code };
+		// -32603 内部错误和 -32000 ~ -32099 为节点错误
+		if (code === -32603 || (code <= -32000 && code >= -32099)) return { code: "RPC_ERROR", rpcCode: code };
+	}
+	if (typeof code === "string" && ETHERS_CODES[code]) {
+		// ethers 的错误码较笼统，内层有更具体的错误码时使用内层的
+		const inner = nestedErrors(error as ErrorLike).map(item => findCode(item, depth + 1)).find(Boolean);
+		return inner ?? { code: ETHERS_CODES[code], rpcCode: code };
+	}
+	for (const nested of nestedErrors(error as ErrorLike)) {
+		const found = findCode(nested, depth + 1);
+		if (found) return found;
+	}
+	return null;
+};
+
+// 把任意错误转换为 WalletError
+export const toWalletError = (error: unknown, action?: WalletAction): WalletError => {
+	if (isWalletError(error)) {
+		return error.action || !action
+			? error
+			: new WalletError(error.code, error.message, { rpcCode: error.rpcCode, action, cause: error.cause });
+	}
+	const found = findCode(error);
+	const message = error instanceof Error
+		? error.message
+		: typeof (error as ErrorLike)?.message === "string" ? (error as ErrorLike).message as string : String(error);
+	return new WalletError(found?.code ?? "UNKNOWN", message, { rpcCode: found?.rpcCode, action, cause: error });
+};
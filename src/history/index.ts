@@ -0,0 +1,197 @@
+import { ethers } from "ethers";
+import type { ChainConfig } from "../config";
+import { WalletError } from "../errors";
+
+// 交易类型：普通交易、内部交易、代币转账
+export type HistoryKind = "normal" | "internal" | "token";
+
+export interface HistoryEntry {
+	id: string; // 同一笔交易可能包含多条代币转账，hash 不唯一
+	hash: string;
+	kind: HistoryKind;
+	blockNumber: number;
+	timestamp: number; // 毫秒
+	from: string;
+	to: string | null;
+	value: string; // 已按精度格式化
+	symbol: string;
+	tokenAddress: string | null;
+	method: string | null; // 解析出的方法名，原生币转账为 null
+	isError: boolean;
+}
+
+export interface HistoryPageParams {
+	chain: ChainConfig;
+	address: string;
+	kind: HistoryKind;
+	page: number; // 从 1 开始
+	pageSize: number;
+	apiKey?: string;
+}
+
+export interface HistoryPage {
+	entries: HistoryEntry[];
+	hasMore: boolean;
+}
+
+// 交易记录获取函数，默认使用 Etherscan 兼容 API，测试时可以替换为本地实现
+export type HistoryFetcher = (params: HistoryPageParams) => Promise<HistoryPage>;
+
+export interface HistoryConfig {
+	apiKey?: string | Record<string, string>; // 按 chainId 配置时未列出的网络不带 Key
+	fetcher?: HistoryFetcher;
+	pageSize?: number; // 默认 20
+	cacheTtl?: number; // 缓存时间（毫秒），默认 1 分钟
+}
+
+export interface HistoryClient {
+	pageSize: number;
+	getPage: (chain: ChainConfig, address: string, kind: HistoryKind, page: number) => Promise<HistoryPage>;
+	clearCache: () => void;
+}
+
+// 常见方法的选择器，浏览器没有返回方法名时使用
+const KNOWN_METHODS: Record<string, string> = {
+	"0xa9059cbb": "transfer",
+	"0x23b872dd": "transferFrom",
+	"0x095ea7b3": "approve",
+	"0x42842e0e": "safeTransferFrom",
+	"0xa22cb465": "setApprovalForAll",
+	"0xd0e30db0": "deposit",
+	"0x2e1a7d4d": "withdraw",
+	"0x3593564c": "execute",
+	"0x38ed1739": "swapExactTokensForTokens",
+	"0x7ff36ab5": "swapExactETHForTokens",
+	"0x18cbafe5": "swapExactTokensForETH",
+	"0xac9650d8": "multicall",
+};
+
+// 解析方法名：优先使用浏览器返回的签名，其次查找常见选择器
+export const decodeMethod = (input?: string, functionName?: string): string | null => {
+	if (functionName) {
+		return functionName.split("(")[0] || null;
+	}
+	if (!input || input === "0x") return null;
+	const selector = input.slice(0, 10).toLowerCase();
+	return KNOWN_METHODS[selector] ?? selector;
+};
+
+const ACTIONS: Record<HistoryKind, string> = {
+	normal: "txlist",
+	internal: "txlistinternal",
+	token: "tokentx",
+};
+
+interface ExplorerResponse {
+	status: string;
+	message: string;
+	result: unknown;
+}
+
+type ExplorerTransaction = Record<string, string | undefined>;
+
+const toEntry = (kind: HistoryKind, chain: ChainConfig, item: ExplorerTransaction, index: number): HistoryEntry => {
+	const isToken = kind === "token";
+	const decimals = isToken ? Number(item.tokenDecimal ?? 18) : chain.nativeCurrency.decimals;
+	return {
+		id: `${kind}:${item.hash}:${item.logIndex ?? item.traceId ?? index}`,
+		hash: item.hash ?? "",
+		kind,
+		blockNumber: Number(item.blockNumber ?? 0),
+		timestamp: Number(item.timeStamp ?? 0) * 1000,
+		from: item.from ?? "",
+		to: item.to || item.contractAddress || null,
+		value: ethers.formatUnits(item.value ?? "0", decimals),
+		symbol: isToken ? item.tokenSymbol ?? "" : chain.nativeCurrency.symbol,
+		tokenAddress: isToken ? item.contractAddress ?? null : null,
+		method: isToken ? "transfer" : decodeMethod(item.input, item.functionName),
+		isError: item.isError === "1",
+	};
+};
+
+// Etherscan 兼容 API 的实现，可以传入自定义 fetch
+export const etherscanFetcher = (fetchImpl: typeof fetch = (...args) => fetch(...args)): HistoryFetcher => {
+	return async ({ chain, address, kind, page, pageSize, apiKey }) => {
+		if (!chain.explorerApiUrl) {
+			throw new WalletError("EXPLORER_UNAVAILABLE", `网络 ${chain.chainName} 未配置区块浏览器 API`);
+		}
+
+		// 保留地址中已有的参数，例如 Etherscan V2 的 chainid；不限制区块范围，默认查询全部区块
+		const url = new URL(chain.explorerApiUrl);
+		const query = {
+			module: "account",
+			action: ACTIONS[kind],
+			address,
+			page: String(page),
+			offset: String(pageSize),
+			sort: "desc",
+			...(apiKey && { apikey: apiKey }),
+		};
+		for (const [key, value] of Object.entries(query)) {
+			url.searchParams.set(key, value);
+		}
+
+		let body: ExplorerResponse;
+		try {
+			const response = await fetchImpl(url.toString());
+			body = await response.json();
+		} catch (error) {
+			throw new WalletError("RPC_ERROR", "区块浏览器请求失败", { cause: error });
+		}
+
+		if (Array.isArray(body.result)) {
+			const entries = (body.result as ExplorerTransaction[]).map((item, index) => toEntry(kind, chain, item, index));
+			return { entries, hasMore: entries.length === pageSize };
+		}
+
+		// 没有交易时 status 为 0，result 为空数组或提示文字
+		if (/no transactions found/i.test(body.message)) {
+			return { entries: [], hasMore: false };
+		}
+		const detail = typeof body.result === "string" ? body.result : body.message;
+		if (/rate limit/i.test(detail)) {
+			throw new WalletError("RATE_LIMITED", detail);
+		}
+		if (/api ?key/i.test(detail)) {
+			throw new WalletError("API_KEY_REQUIRED", detail);
+		}
+		throw new WalletError("RPC_ERROR", detail);
+	};
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+const DEFAULT_CACHE_TTL = 60 * 1000;
+
+// 带缓存和请求合并的交易记录查询
+export const createHistoryClient = (config: HistoryConfig = {}): HistoryClient => {
+	const { apiKey, fetcher = etherscanFetcher(), pageSize = DEFAULT_PAGE_SIZE, cacheTtl = DEFAULT_CACHE_TTL } = config;
+	const cache = new Map<string, { value: HistoryPage; expiresAt: number }>();
+	const inflight = new Map<string, Promise<HistoryPage>>();
+
+	const apiKeyFor = (chain: ChainConfig) => {
+		if (typeof apiKey === "string") return apiKey;
+		return apiKey?.[chain.chainId] ?? apiKey?.[chain.chainId.toLowerCase()];
+	};
+
+	return {
+		pageSize,
+		getPage: async (chain, address, kind, page) => {
+			const key = `${chain.chainId}:${address.toLowerCase()}:${kind}:${page}`;
+			const hit = cache.get(key);
+			if (hit && hit.expiresAt > Date.now()) return hit.value;
+
+			const pending = inflight.get(key);
+			if (pending) return pending;
+
+			const request = fetcher({ chain, address, kind, page, pageSize, apiKey: apiKeyFor(chain) })
+				.then((value) => {
+					cache.set(key, { value, expiresAt: Date.now() + cacheTtl });
+					return value;
+				})
+				.finally(() => inflight.delete(key));
+			inflight.set(key, request);
+			return request;
+		},
+		clearCache: () => cache.clear(),
+	};
+};
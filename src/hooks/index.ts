@@ -0,0 +1,26 @@
+export { useConnect } from "./useConnect";
+export { useNetworkSwitcher } from "./useNetworkSwitcher";
+export { useAccountDetails } from "./useAccountDetails";
+export { useAccounts } from "./useAccounts";
+export { useDisconnect } from "./useDisconnect";
+export { useWalletSync } from "./useWalletSync";
+export { useWalletError } from "./useWalletError";
+export { useWatchOnly } from "./useWatchOnly";
+export { useTransactionHistory } from "./useTransactionHistory";
+export { useApprovals } from "./useApprovals";
+export { useNfts } from "./useNfts";
+export { useContractRead } from "./useContractRead";
+export { useContractWrite } from "./useContractWrite";
+export { useWalletEvent } from "./useWalletEvent";
+export type { UseConnectResult } from "./useConnect";
+export type { UseNetworkSwitcherResult } from "./useNetworkSwitcher";
+export type { UseAccountDetailsResult } from "./useAccountDetails";
+export type { UseAccountsResult } from "./useAccounts";
+export type { UseDisconnectResult } from "./useDisconnect";
+export type { UseWalletErrorResult } from "./useWalletError";
+export type { UseWatchOnlyResult } from "./useWatchOnly";
+export type { UseTransactionHistoryResult } from "./useTransactionHistory";
+export type { UseApprovalsResult } from "./useApprovals";
+export type { UseNftsResult } from "./useNfts";
+export type { UseContractReadParams, UseContractReadResult } from "./useContractRead";
+export type { ContractWriteOptions, UseContractWriteParams, UseContractWriteResult } from "./useContractWrite";
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+import { findChain } from "../config";
+
+// 复制到剪贴板，不支持 Clipboard API 时降级为 execCommand
+const copyText = async (text: string) => {
+	try {
+		await navigator.clipboard.writeText(text);
+	} catch (error) {
+		console.error('复制失败:', error);
+		const textArea = document.createElement('textarea');
+		textArea.value = text;
+		document.body.appendChild(textArea);
+		textArea.select();
+		document.execCommand('copy');
+		document.body.removeChild(textArea);
+	}
+};
+
+// 当前账户信息：地址、ENS、余额和复制地址
+export const useAccountDetails = () => {
+	const state = useWallet(useShallow((state) => ({
+		address: state.address,
+		chainId: state.chainId,
+		chains: state.chains,
+		isConnected: state.isConnected,
+		isWatchOnly: state.watchOnly,
+		balance: state.balance,
+		ensName: state.ensName,
+		ensAvatar: state.ensAvatar,
+		nftAvatar: state.address ? state.nftAvatars[state.address.toLowerCase()]?.image ?? null : null,
+		isRefreshing: state.isRefreshing,
+		lastUpdated: state.lastUpdated,
+		balanceError: state.errors.getBalance ?? null,
+		locale: state.locale,
+		refreshBalances: state.refreshBalances,
+		formatAddress: state.formatAddress,
+		formatBalance: state.formatBalance,
+		// 价格和代币余额变化时重新计算法币估值
+		prices: state.prices,
+		tokenBalances: state.tokenBalances,
+		currency: state.currency ?? state.defaultCurrency,
+		currencies: state.currencies,
+		setCurrency: state.setCurrency,
+		getFiatValue: state.getFiatValue,
+		getPortfolioValue: state.getPortfolioValue,
+		formatFiat: state.formatFiat,
+	})));
+	const [copied, setCopied] = useState(false);
+	const copiedTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+	useEffect(() => () => {
+		if (copiedTimer.current) clearTimeout(copiedTimer.current);
+	}, []);
+
+	const { address, chains, chainId, ensName, balance, formatAddress, formatBalance, getFiatValue, getPortfolioValue, formatFiat } = state;
+	const network = findChain(chains, chainId);
+	const symbol = network?.nativeCurrency.symbol ?? "ETH";
+	const fiatBalance = getFiatValue(balance);
+	const portfolioValue = getPortfolioValue();
+
+	// 复制钱包地址，2 秒后重置已复制状态
+	const copyAddress = useCallback(async () => {
+		if (!address) return;
+		await copyText(address);
+		setCopied(true);
+		if (copiedTimer.current) clearTimeout(copiedTimer.current);
+		copiedTimer.current = setTimeout(() => setCopied(false), 2000);
+	}, [address]);
+
+	return {
+		address: state.address,
+		isConnected: state.isConnected,
+		isWatchOnly: state.isWatchOnly,
+		ensName: state.ensName,
+		ensAvatar: state.ensAvatar,
+		// 显示用的头像：ENS 头像优先，其次为用户选择的 NFT
+		avatar: state.ensAvatar ?? state.nftAvatar,
+		// ENS 名称优先，否则显示缩写地址
+		displayName: ensName ?? (address ? formatAddress(address) : null),
+		shortAddress: address ? formatAddress(address) : null,
+		network,
+		balance,
+		formattedBalance: formatBalance(balance),
+		symbol,
+		// 法币估值，没有价格时为 null
+		fiatBalance: fiatBalance === null ? null : formatFiat(fiatBalance),
+		portfolioValue: portfolioValue === null ? null : formatFiat(portfolioValue),
+		currency: state.currency,
+		currencies: state.currencies,
+		setCurrency: state.setCurrency,
+		isRefreshing: state.isRefreshing,
+		lastUpdated: state.lastUpdated,
+		balanceError: state.balanceError,
+		locale: state.locale,
+		refreshBalances: state.refreshBalances,
+		copied,
+		copyAddress,
+	};
+};
+
+export type UseAccountDetailsResult = ReturnType<typeof useAccountDetails>;
@@ -0,0 +1,49 @@
+import { useCallback, useMemo, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+
+// 已授权账户列表，支持切换当前账户和请求更多账户
+export const useAccounts = () => {
+	const { address, accounts, accountInfo, error, switchAccount, requestAccounts, refreshAccounts } = useWallet(useShallow((state) => ({
+		address: state.address,
+		accounts: state.accounts,
+		accountInfo: state.accountInfo,
+		error: state.errors.requestAccounts ?? null,
+		switchAccount: state.switchAccount,
+		requestAccounts: state.requestAccounts,
+		refreshAccounts: state.refreshAccounts,
+	})));
+	const [isRequesting, setIsRequesting] = useState(false);
+
+	// 旧版本持久化的状态没有账户列表，至少包含当前账户
+	const list = useMemo(() => {
+		const addresses = accounts.length > 0 ? accounts : address ? [address] : [];
+		return addresses.map(account => ({
+			address: account,
+			balance: accountInfo[account.toLowerCase()]?.balance ?? null,
+			ensName: accountInfo[account.toLowerCase()]?.ensName ?? null,
+			isActive: account.toLowerCase() === address?.toLowerCase(),
+		}));
+	}, [address, accounts, accountInfo]);
+
+	// 请求更多账户，失败时抛出 WalletError
+	const request = useCallback(async () => {
+		setIsRequesting(true);
+		try {
+			await requestAccounts();
+		} finally {
+			setIsRequesting(false);
+		}
+	}, [requestAccounts]);
+
+	return {
+		accounts: list,
+		isRequesting,
+		error,
+		switchAccount,
+		requestAccounts: request,
+		refresh: refreshAccounts,
+	};
+};
+
+export type UseAccountsResult = ReturnType<typeof useAccounts>;
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+import { DEFAULT_LOOKBACK_BLOCKS, isUnlimitedAllowance, type ApprovalEntry } from "../approvals";
+import { toWalletError, WalletError } from "../errors";
+
+// 新额度是否为有效数字且低于当前额度
+const parseLowerAllowance = (entry: ApprovalEntry, amount: string) => {
+	try {
+		const value = ethers.parseUnits(amount, entry.token.decimals);
+		return value < entry.allowance ? value : null;
+	} catch {
+		return null;
+	}
+};
+
+// 当前账户的代币授权：扫描、撤销和降低额度
+export const useApprovals = () => {
+	const { address, chainId, isWatchOnly, approvalsConfig, scanApprovals, setAllowance, t } = useWallet(useShallow((state) => ({
+		address: state.address,
+		chainId: state.chainId,
+		isWatchOnly: state.watchOnly,
+		approvalsConfig: state.approvals,
+		scanApprovals: state.scanApprovals,
+		setAllowance: state.setAllowance,
+		t: state.t,
+	})));
+	const [approvals, setApprovals] = useState<ApprovalEntry[]>([]);
+	const [hasScanned, setHasScanned] = useState(false); // 首次扫描完成前不能认为没有授权
+	const [isScanning, setIsScanning] = useState(false);
+	const [pendingId, setPendingId] = useState<string | null>(null); // 正在提交的授权
+	const [error, setError] = useState<WalletError | null>(null);
+
+	// 账户或网络变化后清空结果，需要重新扫描
+	useEffect(() => {
+		setApprovals([]);
+		setHasScanned(false);
+		setError(null);
+	}, [address, chainId]);
+
+	const scan = useCallback(async () => {
+		setIsScanning(true);
+		setError(null);
+		try {
+			setApprovals(await scanApprovals());
+			setHasScanned(true);
+		} catch (err) {
+			setError(toWalletError(err));
+		} finally {
+			setIsScanning(false);
+		}
+	}, [scanApprovals]);
+
+	// 修改额度，交易提交后先按新额度更新列表，失败时抛出 WalletError
+	const update = useCallback(async (entry: ApprovalEntry, amount: string) => {
+		setPendingId(entry.id);
+		setError(null);
+		try {
+			const hash = await setAllowance(entry.token.address, entry.spender, amount);
+			const allowance = ethers.parseUnits(amount, entry.token.decimals);
+			setApprovals(current => allowance === 0n
+				? current.filter(item => item.id !== entry.id)
+				: current.map(item => item.id === entry.id
+					? { ...item, allowance, formatted: amount, isUnlimited: isUnlimitedAllowance(allowance) }
+					: item));
+			return hash;
+		} catch (err) {
+			const walletError = toWalletError(err);
+			setError(walletError);
+			throw walletError;
+		} finally {
+			setPendingId(null);
+		}
+	}, [setAllowance]);
+
+	const revoke = useCallback((entry: ApprovalEntry) => update(entry, "0"), [update]);
+
+	// 降低额度，新额度必须小于当前额度，否则不发送交易
+	const reduce = useCallback(async (entry: ApprovalEntry, amount: string) => {
+		if (parseLowerAllowance(entry, amount) === null) {
+			const walletError = new WalletError("INVALID_AMOUNT", t("allowanceMustBeLower"));
+			setError(walletError);
+			throw walletError;
+		}
+		return update(entry, amount);
+	}, [update, t]);
+
+	return {
+		approvals,
+		unlimitedCount: approvals.filter(entry => entry.isUnlimited).length,
+		hasScanned,
+		isScanning,
+		pendingId,
+		error,
+		canRevoke: !isWatchOnly,
+		// 事件扫描的区块范围，为 null 时不扫描事件，只查询已知的授权对象
+		lookbackBlocks: approvalsConfig.scanLogs === false ? null : approvalsConfig.lookbackBlocks ?? DEFAULT_LOOKBACK_BLOCKS,
+		isLowerAllowance: (entry: ApprovalEntry, amount: string) => parseLowerAllowance(entry, amount) !== null,
+		scan,
+		revoke,
+		reduce,
+	};
+};
+
+export type UseApprovalsResult = ReturnType<typeof useApprovals>;
@@ -0,0 +1,41 @@
+import { useCallback, useMemo, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+import { getVisibleConnectors } from "../connectors";
+
+// 连接钱包：可选连接器列表和连接状态
+export const useConnect = () => {
+	const { connectors, connectorId, isConnected, error, connectWallet } = useWallet(useShallow((state) => ({
+		connectors: state.connectors,
+		connectorId: state.connectorId,
+		isConnected: state.isConnected,
+		error: state.errors.connect ?? null,
+		connectWallet: state.connectWallet,
+	})));
+	const [isConnecting, setIsConnecting] = useState(false);
+
+	const visibleConnectors = useMemo(() => getVisibleConnectors(connectors), [connectors]);
+
+	// 连接指定连接器，未指定时使用第一个可用的连接器；失败时抛出 WalletError
+	const connect = useCallback(async (id?: string) => {
+		setIsConnecting(true);
+		try {
+			await connectWallet(id ?? visibleConnectors[0]?.id);
+		} finally {
+			setIsConnecting(false);
+		}
+	}, [connectWallet, visibleConnectors]);
+
+	return {
+		connectors: visibleConnectors,
+		activeConnectorId: connectorId,
+		// 有多个可选钱包时应先让用户选择
+		needsPicker: visibleConnectors.length > 1,
+		isConnected,
+		isConnecting,
+		error,
+		connect,
+	};
+};
+
+export type UseConnectResult = ReturnType<typeof useConnect>;
@@ -0,0 +1,44 @@
+import { cleanup, renderHook, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { createMockProvider, createTestWalletStore } from "../testing";
+import { WalletProvider } from "../components/WalletProvider";
+import { useContractRead } from "./useContractRead";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const BALANCE_OF_ABI = [
+	{
+		type: "function",
+		name: "balanceOf",
+		stateMutability: "view",
+		inputs: [{ name: "owner", type: "address" }],
+		outputs: [{ name: "", type: "uint256" }],
+	},
+] as const;
+
+afterEach(() => {
+	cleanup();
+});
+
+describe("useContractRead", () => {
+	it("drops the previous result when the call changes", async () => {
+		const provider = createMockProvider({
+			chainId: "0xaa36a7",
+			tokens: { [TOKEN]: { symbol: "TKN", decimals: 6, balances: { "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266": 5n } } },
+		});
+		const { store } = createTestWalletStore({ provider, autoRefresh: { mode: "off" } });
+		await store.getState().connectWallet();
+
+		const { result, rerender } = renderHook(
+			({ owner }: { owner: string }) => useContractRead({ address: TOKEN, abi: BALANCE_OF_ABI, functionName: "balanceOf", args: [owner] }),
+			{
+				initialProps: { owner: provider.accounts[0] },
+				wrapper: ({ children }) => <WalletProvider store={store}>{children}</WalletProvider>,
+			},
+		);
+		await waitFor(() => expect(result.current.data).toBe(5n));
+
+		rerender({ owner: provider.accounts[1] });
+		expect(result.current.data).toBeUndefined();
+		await waitFor(() => expect(result.current.data).toBe(0n));
+	});
+});
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+import { serializeArgs, type ContractAbi, type ContractFunctionResult, type ReadContractParams, type ReadFunctionName } from "../contracts";
+import { toWalletError, type WalletError } from "../errors";
+
+export interface UseContractReadParams<TAbi extends ContractAbi, TName extends ReadFunctionName<TAbi>>
+	extends Omit<ReadContractParams<TAbi, TName>, "force"> {
+	enabled?: boolean; // 为 false 时不读取，例如参数还未准备好
+}
+
+// 读取合约，网络、账户或参数变化以及交易完成后自动重新读取
+export const useContractRead = <const TAbi extends ContractAbi, TName extends ReadFunctionName<TAbi>>(
+	params: UseContractReadParams<TAbi, TName>
+) => {
+	const { chainId, address, readsInvalidatedAt, readContract } = useWallet(useShallow((state) => ({
+		chainId: state.chainId,
+		address: state.address,
+		readsInvalidatedAt: state.readsInvalidatedAt,
+		readContract: state.readContract,
+	})));
+	const [result, setResult] = useState<{ key: string; data: ContractFunctionResult<TAbi, TName> } | null>(null);
+	const [error, setError] = useState<WalletError | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+	const requestId = useRef(0); // 丢弃过期请求的结果
+
+	const { enabled = true, ...readParams } = params;
+	const targetChainId = readParams.chainId ?? chainId;
+	// ABI 和参数通常是内联的，用序列化后的 key 判断是否变化，读取时从 ref 取最新参数
+	const key = `${targetChainId}:${readParams.address.toLowerCase()}:${readParams.functionName}:${serializeArgs(readParams.args as readonly unknown[] | undefined)}`;
+	const paramsRef = useRef({ params: readParams, key });
+	useEffect(() => {
+		paramsRef.current = { params: readParams, key };
+	});
+	// 只返回当前 key 的结果，切换合约、函数、参数或网络后不再显示上一次调用的数据
+	const data = result?.key === key ? result.data : undefined;
+
+	const read = useCallback(async (force = false) => {
+		const id = ++requestId.current;
+		setIsLoading(true);
+		setError(null);
+		try {
+			const { params, key } = paramsRef.current;
+			const data = await readContract({ ...params, force });
+			if (id === requestId.current) setResult({ key, data });
+		} catch (err) {
+			if (id === requestId.current) setError(toWalletError(err));
+		} finally {
+			if (id === requestId.current) setIsLoading(false);
+		}
+	}, [readContract]);
+
+	useEffect(() => {
+		if (!enabled || !targetChainId) {
+			requestId.current++;
+			setIsLoading(false);
+			return;
+		}
+		read();
+	}, [enabled, targetChainId, address, readsInvalidatedAt, key, read]);
+
+	return {
+		data,
+		error,
+		isLoading,
+		refetch: useCallback(() => read(true), [read]),
+	};
+};
+
+export type UseContractReadResult<TAbi extends ContractAbi, TName extends ReadFunctionName<TAbi>> = ReturnType<
+	typeof useContractRead<TAbi, TName>
+>;
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+import type { ContractAbi, ContractFunctionArgs, WriteContractParams, WriteFunctionName } from "../contracts";
+import { toWalletError, type WalletError } from "../errors";
+
+export type UseContractWriteParams<TAbi extends ContractAbi, TName extends WriteFunctionName<TAbi>> =
+	Omit<WriteContractParams<TAbi, TName>, "args" | "value">;
+
+export interface ContractWriteOptions {
+	value?: bigint;
+	description?: string;
+}
+
+// 调用会修改状态的合约函数，提交的交易加入交易追踪，status 随回执更新
+export const useContractWrite = <const TAbi extends ContractAbi, TName extends WriteFunctionName<TAbi>>(
+	params: UseContractWriteParams<TAbi, TName>
+) => {
+	const [hash, setHash] = useState<string | null>(null);
+	const [isPending, setIsPending] = useState(false); // 等待钱包签名
+	const [error, setError] = useState<WalletError | null>(null);
+	const { writeContract, transaction } = useWallet(useShallow((state) => ({
+		writeContract: state.writeContract,
+		transaction: hash ? state.transactions.find(tx => tx.hash === hash) ?? null : null,
+	})));
+
+	// ABI 通常是内联的，提交时从 ref 取最新参数，write 不随每次渲染变化
+	const paramsRef = useRef(params);
+	useEffect(() => {
+		paramsRef.current = params;
+	});
+
+	// 提交交易，返回交易哈希，失败时抛出 WalletError
+	const write = useCallback(async (args?: ContractFunctionArgs<TAbi, TName>, options: ContractWriteOptions = {}) => {
+		setIsPending(true);
+		setError(null);
+		try {
+			const txHash = await writeContract({ ...paramsRef.current, ...options, args });
+			setHash(txHash);
+			return txHash;
+		} catch (err) {
+			const walletError = toWalletError(err);
+			setError(walletError);
+			throw walletError;
+		} finally {
+			setIsPending(false);
+		}
+	}, [writeContract]);
+
+	const reset = useCallback(() => {
+		setHash(null);
+		setError(null);
+	}, []);
+
+	return {
+		write,
+		hash,
+		transaction, // 交易追踪中的记录，包含确认状态
+		status: transaction?.status ?? null,
+		isPending,
+		error,
+		reset,
+	};
+};
+
+export type UseContractWriteResult<TAbi extends ContractAbi, TName extends WriteFunctionName<TAbi>> = ReturnType<
+	typeof useContractWrite<TAbi, TName>
+>;
@@ -0,0 +1,12 @@
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+
+// 断开钱包连接
+export const useDisconnect = () => {
+	return useWallet(useShallow((state) => ({
+		isConnected: state.isConnected,
+		disconnect: state.disconnectWallet,
+	})));
+};
+
+export type UseDisconnectResult = ReturnType<typeof useDisconnect>;
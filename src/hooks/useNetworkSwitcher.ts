@@ -0,0 +1,64 @@
+import { useCallback, useMemo, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+import { findChain } from "../config";
+
+// 网络切换：可选网络列表、当前网络和是否在不支持的网络上
+export const useNetworkSwitcher = () => {
+	const { chains, requiredChains, chainId, isUnsupported, defaultNetwork, error, switchNetwork, switchToDefaultChain } = useWallet(useShallow((state) => ({
+		chains: state.chains,
+		requiredChains: state.requiredChains,
+		chainId: state.chainId,
+		isUnsupported: state.isUnsupportedChain(),
+		defaultNetwork: state.getDefaultChain(),
+		error: state.errors.switchNetwork ?? null,
+		switchNetwork: state.switchNetwork,
+		switchToDefaultChain: state.switchToDefaultChain,
+	})));
+	const [isSwitching, setIsSwitching] = useState(false);
+
+	// 配置了 requiredChains 时只列出支持的网络
+	const networks = useMemo(() => Object.entries(chains)
+		.filter(([, chain]) => requiredChains.length === 0 || requiredChains.some(item => findChain(chains, item) === chain))
+		.map(([key, chain]) => ({
+			key,
+			chain,
+			isActive: chain.chainId === chainId,
+		})), [chains, requiredChains, chainId]);
+
+	const currentNetwork = useMemo(() => findChain(chains, chainId), [chains, chainId]);
+
+	// 切换到指定网络（网络 key 或 chainId），失败时抛出 WalletError
+	const switchTo = useCallback(async (networkKey: string) => {
+		setIsSwitching(true);
+		try {
+			await switchNetwork(networkKey);
+		} finally {
+			setIsSwitching(false);
+		}
+	}, [switchNetwork]);
+
+	// 一键切换到默认网络，失败时抛出 WalletError
+	const switchToDefault = useCallback(async () => {
+		setIsSwitching(true);
+		try {
+			await switchToDefaultChain();
+		} finally {
+			setIsSwitching(false);
+		}
+	}, [switchToDefaultChain]);
+
+	return {
+		networks,
+		currentNetwork,
+		chainId,
+		isUnsupported,
+		defaultNetwork,
+		isSwitching,
+		error,
+		switchNetwork: switchTo,
+		switchToDefault,
+	};
+};
+
+export type UseNetworkSwitcherResult = ReturnType<typeof useNetworkSwitcher>;
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+import { toWalletError, type WalletError } from "../errors";
+import type { NftItem } from "../nfts";
+
+// 当前账户持有的 NFT，账户或网络变化时重新加载；没有 ENS 头像时可以选择 NFT 作为头像
+export const useNfts = () => {
+	const { address, chainId, ensAvatar, avatar, fetchNfts, setNftAvatar } = useWallet(useShallow((state) => ({
+		address: state.address,
+		chainId: state.chainId,
+		ensAvatar: state.ensAvatar,
+		avatar: state.address ? state.nftAvatars[state.address.toLowerCase()] ?? null : null,
+		fetchNfts: state.fetchNfts,
+		setNftAvatar: state.setNftAvatar,
+	})));
+	const [nfts, setNfts] = useState<NftItem[]>([]);
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<WalletError | null>(null);
+	const requestId = useRef(0); // 丢弃过期请求的结果
+
+	const refresh = useCallback(async () => {
+		const id = ++requestId.current;
+		setIsLoading(true);
+		setError(null);
+		try {
+			const result = await fetchNfts();
+			if (id === requestId.current) setNfts(result);
+		} catch (err) {
+			if (id === requestId.current) setError(toWalletError(err));
+		} finally {
+			if (id === requestId.current) setIsLoading(false);
+		}
+	}, [fetchNfts]);
+
+	useEffect(() => {
+		setNfts([]);
+		if (!address || !chainId) {
+			requestId.current++;
+			setIsLoading(false);
+			return;
+		}
+		refresh();
+	}, [address, chainId, refresh]);
+
+	return {
+		nfts,
+		isLoading,
+		error,
+		refresh,
+		// 当前头像对应的 NFT id，与 NftItem.id 格式相同
+		avatarId: avatar ? `${avatar.chainId}:${avatar.contract.toLowerCase()}:${avatar.tokenId}` : null,
+		canSetAvatar: !ensAvatar,
+		setAvatar: setNftAvatar,
+	};
+};
+
+export type UseNftsResult = ReturnType<typeof useNfts>;
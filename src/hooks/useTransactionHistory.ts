@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+import { toWalletError, type WalletError } from "../errors";
+import type { HistoryEntry, HistoryKind } from "../history";
+
+// 当前账户的链上交易记录，分页加载，账户、网络或类型变化时重新加载
+export const useTransactionHistory = (kind: HistoryKind = "normal") => {
+	const { address, chainId, historyClient, fetchHistory } = useWallet(useShallow((state) => ({
+		address: state.address,
+		chainId: state.chainId,
+		historyClient: state.historyClient,
+		fetchHistory: state.fetchHistory,
+	})));
+	const [entries, setEntries] = useState<HistoryEntry[]>([]);
+	const [page, setPage] = useState(0); // 已加载的页数
+	const [hasMore, setHasMore] = useState(false);
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<WalletError | null>(null);
+	const requestId = useRef(0); // 丢弃过期请求的结果
+
+	const load = useCallback(async (nextPage: number) => {
+		const id = ++requestId.current;
+		setIsLoading(true);
+		setError(null);
+		try {
+			const result = await fetchHistory(kind, nextPage);
+			if (id !== requestId.current) return;
+			setEntries(current => nextPage === 1 ? result.entries : [...current, ...result.entries]);
+			setPage(nextPage);
+			setHasMore(result.hasMore);
+		} catch (err) {
+			if (id !== requestId.current) return;
+			setError(toWalletError(err));
+			setHasMore(false);
+		} finally {
+			if (id === requestId.current) setIsLoading(false);
+		}
+	}, [fetchHistory, kind]);
+
+	useEffect(() => {
+		setEntries([]);
+		setPage(0);
+		if (!address || !chainId) {
+			requestId.current++;
+			setHasMore(false);
+			setIsLoading(false);
+			setError(null);
+			return;
+		}
+		load(1);
+	}, [address, chainId, load]);
+
+	const loadMore = useCallback(() => {
+		if (!isLoading && hasMore) load(page + 1);
+	}, [isLoading, hasMore, load, page]);
+
+	// 清除缓存后重新加载第一页
+	const refresh = useCallback(() => {
+		historyClient.clearCache();
+		return load(1);
+	}, [historyClient, load]);
+
+	return {
+		entries,
+		hasMore,
+		isLoading,
+		error,
+		loadMore,
+		refresh,
+	};
+};
+
+export type UseTransactionHistoryResult = ReturnType<typeof useTransactionHistory>;
@@ -0,0 +1,24 @@
+import { useCallback } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+import { WALLET_ERROR_MESSAGES } from "../errors";
+
+// 最近一次错误及对应的提示文案
+export const useWalletError = () => {
+	const { error, clearError, t } = useWallet(useShallow((state) => ({
+		error: state.lastError,
+		clearError: state.clearError,
+		t: state.t,
+	})));
+
+	const action = error?.action;
+	const clear = useCallback(() => clearError(action), [clearError, action]);
+
+	return {
+		error,
+		message: error ? t(WALLET_ERROR_MESSAGES[error.code]) : null,
+		clear,
+	};
+};
+
+export type UseWalletErrorResult = ReturnType<typeof useWalletError>;
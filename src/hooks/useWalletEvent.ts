@@ -0,0 +1,20 @@
+import { useEffect, useRef } from "react";
+import { useWalletStoreApi } from "../stores/context";
+import type { WalletEventName, WalletEvents } from "../stores/events";
+
+// 订阅钱包事件，组件卸载时自动取消；监听函数始终使用最新的一次渲染
+export const useWalletEvent = <E extends WalletEventName>(event: E, listener: WalletEvents[E]) => {
+	const store = useWalletStoreApi();
+	const listenerRef = useRef(listener);
+
+	useEffect(() => {
+		listenerRef.current = listener;
+	});
+
+	useEffect(() => {
+		const handler = ((payload: Parameters<WalletEvents[E]>[0]) => {
+			(listenerRef.current as (payload: unknown) => void)(payload);
+		}) as WalletEvents[E];
+		return store.on(event, handler);
+	}, [store, event]);
+};
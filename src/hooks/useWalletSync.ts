@@ -0,0 +1,10 @@
+import { useEffect } from "react";
+import { useWalletStoreApi } from "../stores/context";
+
+// 确保当前 store 的后台任务（钱包事件、静默重连、余额和交易轮询）在组件挂载期间运行；
+// 默认实例首次使用时会自动启动，WalletProvider 会启动自己的 store，保留此 hook 以兼容旧代码
+export const useWalletSync = () => {
+	const store = useWalletStoreApi();
+
+	useEffect(() => store.start(), [store]);
+};
@@ -0,0 +1,34 @@
+import { useCallback, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useWallet } from "../stores/context";
+
+// 只读模式：查看任意地址或 ENS 名称
+export const useWatchOnly = () => {
+	const { isWatchOnly, error, watchAddress, disconnectWallet } = useWallet(useShallow((state) => ({
+		isWatchOnly: state.watchOnly,
+		error: state.errors.watch ?? null,
+		watchAddress: state.watchAddress,
+		disconnectWallet: state.disconnectWallet,
+	})));
+	const [isLoading, setIsLoading] = useState(false);
+
+	// 开始查看，失败时抛出 WalletError
+	const watch = useCallback(async (addressOrEns: string, networkKey?: string) => {
+		setIsLoading(true);
+		try {
+			await watchAddress(addressOrEns, networkKey);
+		} finally {
+			setIsLoading(false);
+		}
+	}, [watchAddress]);
+
+	return {
+		isWatchOnly,
+		isLoading,
+		error,
+		watch,
+		exit: disconnectWallet,
+	};
+};
+
+export type UseWatchOnlyResult = ReturnType<typeof useWatchOnly>;
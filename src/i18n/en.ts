@@ -0,0 +1,177 @@
+import type { Messages } from ".";
+
+// English
+export const en: Messages = {
+	// 连接
+	connectWallet: "Connect Wallet",
+	connecting: "Connecting...",
+	installWallet: "Please install a wallet such as MetaMask!",
+	selectWallet: "Select Wallet",
+	selectWalletHint: "Multiple wallets detected, choose the one to connect",
+
+	// 只读模式
+	watchOnly: "Watch-only",
+	watchAddress: "Watch address",
+	watchAddressHint: "Enter an address or ENS name to view its balances and activity read-only",
+	watch: "View",
+	watchLoading: "Loading...",
+	exitWatchOnly: "Exit watch-only mode",
+	watchOnlyCannotSign: "Signing is not available in watch-only mode",
+
+	// 网络
+	unknownNetwork: "Unknown Network",
+	testnet: "Testnet",
+	currentNetwork: "Network",
+	wrongNetwork: "Wrong Network",
+	wrongNetworkHint: "{network} is not supported. Please switch networks to continue.",
+	switchToNetwork: "Switch to {network}",
+	switchingNetwork: "Switching...",
+
+	// 断开连接
+	disconnect: "Disconnect",
+	disconnectConfirm: "Disconnect your wallet?",
+	disconnectWarning: "You will need to reconnect to use wallet features. The current wallet information will be cleared.",
+	confirmDisconnect: "Disconnect",
+	cancel: "Cancel",
+
+	// 钱包详情
+	viewWalletDetails: "View wallet details",
+	walletDetails: "Wallet Details",
+	walletDetailsHint: "Full information about your wallet",
+	walletAddress: "Wallet Address",
+	ensName: "ENS Name",
+	plainAddress: "Address",
+	copyAddress: "Copy address",
+	copy: "Copy",
+	copied: "Copied",
+	balance: "Balance",
+	refreshBalance: "Refresh balance",
+	close: "Close",
+
+	// 账户
+	accounts: "Accounts",
+	addAccounts: "Add accounts",
+	requestingAccounts: "Requesting...",
+	activeAccount: "Active account",
+	switchAccount: "Switch to this account",
+
+	// 代币
+	tokens: "Tokens",
+	noTokens: "No tokens on this network",
+	removeToken: "Remove token",
+	tokenAddressPlaceholder: "Token contract address 0x...",
+	importToken: "Import",
+	importingToken: "Importing...",
+	importTokenFailed: "Import failed, please check the contract address",
+
+	// 转账
+	send: "Send",
+	sendHint: "Transfer native currency or tokens",
+	sending: "Sending...",
+	sendFailed: "Failed to send",
+	asset: "Asset",
+	available: "Available: {amount} {symbol}",
+	recipient: "Recipient",
+	amount: "Amount",
+	max: "Max",
+	estimatedFee: "Estimated fee",
+	estimating: "Estimating...",
+	maxFeeAndPriorityFee: "Max Fee / Priority Fee",
+	estimateFailed: "Failed to estimate fee",
+	txSubmitted: "Transaction submitted",
+	viewOnExplorer: "View on block explorer",
+	back: "Back",
+
+	// 地址输入
+	addressPlaceholder: "0x... or name.eth",
+	invalidAddress: "Invalid address or ENS name",
+	ensNotFound: "ENS name not found",
+	transactionNotFound: "Transaction not found",
+	ensLookupFailed: "ENS lookup failed",
+
+	// 交易记录
+	recentActivity: "Recent Activity",
+	noTransactions: "No transactions yet",
+	clear: "Clear",
+	txPending: "Pending",
+	txConfirmed: "Confirmed",
+	txFailed: "Failed",
+	txReplaced: "Sped up",
+	txCancelled: "Cancelled",
+
+	// 代币授权
+	approvals: "Token Approvals",
+	scanApprovals: "Scan",
+	scanningApprovals: "Scanning...",
+	noApprovals: "No outstanding approvals",
+	approvalsNotScanned: "Scan to list token approvals for this account",
+	approvalsScanWindow: "Based on Approval events from the last {blocks} blocks and known spenders; older approvals may be missing",
+	approvalsScanAll: "Based on Approval events from all blocks and known spenders",
+	allowanceMustBeLower: "New allowance must be lower than the current one",
+	unlimitedAllowance: "Unlimited",
+	unlimitedApprovalsWarning: "{count} unlimited approvals can move your entire balance",
+	revoke: "Revoke",
+	reduceAllowance: "Reduce allowance",
+	newAllowance: "New allowance",
+	confirm: "Confirm",
+	revokeDescription: "Revoke {symbol} approval for {spender}",
+	approveDescription: "Set {symbol} allowance for {spender} to {amount}",
+
+	// NFT
+	nfts: "NFTs",
+	noNfts: "No NFTs yet",
+	nftsLoading: "Loading...",
+	setAsAvatar: "Set as avatar",
+	removeAvatar: "Remove avatar",
+
+	// 法币估值
+	portfolioValue: "Portfolio Value",
+	displayCurrency: "Display currency",
+
+	// 链上交易记录
+	overview: "Overview",
+	activity: "Activity",
+	historyNormal: "Transactions",
+	historyInternal: "Internal",
+	historyToken: "Token Transfers",
+	noHistory: "No activity yet",
+	loadMore: "Load more",
+	historyLoading: "Loading...",
+	historyFailed: "Failed",
+	historyUnavailable: "Activity is not available on this network",
+	historyApiKeyRequired: "The block explorer requires an API key to load activity",
+	historyRateLimited: "Too many requests, please try again later",
+	viewAddressOnExplorer: "View all activity on block explorer",
+	refresh: "Refresh",
+
+	// 登录
+	signInStatus: "Sign-In",
+	signedIn: "Signed in",
+	notSignedIn: "Not signed in",
+	sessionExpiresAt: "Expires {time}",
+	signIn: "Sign In",
+	signingIn: "Signing...",
+	signInFailed: "Sign-in failed",
+	signOut: "Sign Out",
+
+	// 错误
+	walletNotConnected: "Wallet not connected",
+	tokenNotFound: "Token not found: {token}",
+	recipientUnresolved: "Unable to resolve recipient: {recipient}",
+	siweNotConfigured: "Sign-In with Ethereum is not configured",
+	signatureInvalid: "Signature verification failed",
+	accountChangedDuringSignIn: "Account changed while signing",
+	errorUserRejected: "Request rejected in wallet",
+	errorUnauthorized: "The wallet has not authorized this action",
+	errorUnsupportedMethod: "This wallet does not support the action",
+	errorDisconnected: "The wallet is disconnected from the network",
+	errorRequestPending: "A request is already pending, please check your wallet",
+	errorUnrecognizedChain: "The wallet does not know this network",
+	errorChainNotConfigured: "Network is not configured",
+	errorRpc: "Network request failed, please try again later",
+	errorTokenNotFound: "Token not found",
+	errorInvalidAmount: "Invalid amount",
+	errorUnknown: "Something went wrong",
+	sessionExpired: "Your session has expired, please reconnect",
+	dismiss: "Dismiss",
+};
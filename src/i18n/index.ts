@@ -0,0 +1,43 @@
+import { zh } from "./zh";
+import { en } from "./en";
+
+export type Messages = typeof zh;
+export type MessageKey = keyof Messages;
+
+// 按语言分组的消息目录，宿主可以只覆盖部分文案
+export type MessageCatalogs = Record<string, Partial<Messages>>;
+
+export const BUILTIN_MESSAGES: Record<string, Messages> = { zh, en };
+
+export const DEFAULT_LOCALE = "zh";
+
+// zh-CN -> zh
+const baseLanguage = (locale: string) => locale.split("-")[0];
+
+// 依次查找：宿主目录 -> 内置目录 -> 基础语言 -> 英文 -> key 本身
+export const translate = (
+	catalogs: MessageCatalogs,
+	locale: string,
+	key: MessageKey,
+	params?: Record<string, string | number>,
+) => {
+	const base = baseLanguage(locale);
+	const template = catalogs[locale]?.[key]
+		?? BUILTIN_MESSAGES[locale]?.[key]
+		?? catalogs[base]?.[key]
+		?? BUILTIN_MESSAGES[base]?.[key]
+		?? BUILTIN_MESSAGES.en[key]
+		?? key;
+
+	if (!params) return template;
+	return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+		return params[name] !== undefined ? String(params[name]) : match;
+	});
+};
+
+// 按语言格式化数量，保留 4 位小数，过小的值显示为 0
+export const formatAmount = (value: string, locale: string) => {
+	const num = parseFloat(value);
+	if (!Number.isFinite(num) || num < 0.0001) return "0";
+	return new Intl.NumberFormat(locale, { minimumFractionDigits: 4, maximumFractionDigits: 4 }).format(num);
+};
@@ -0,0 +1,175 @@
+// 中文（默认语言）
+export const zh = {
+	// 连接
+	connectWallet: "连接钱包",
+	connecting: "连接中...",
+	installWallet: "请安装 MetaMask 钱包！",
+	selectWallet: "选择钱包",
+	selectWalletHint: "检测到多个钱包，请选择要连接的钱包",
+
+	// 只读模式
+	watchOnly: "只读",
+	watchAddress: "查看地址",
+	watchAddressHint: "输入地址或 ENS 名称，以只读方式查看余额和交易",
+	watch: "查看",
+	watchLoading: "加载中...",
+	exitWatchOnly: "退出只读模式",
+	watchOnlyCannotSign: "只读模式不能签名",
+
+	// 网络
+	unknownNetwork: "未知网络",
+	testnet: "测试网",
+	currentNetwork: "当前网络",
+	wrongNetwork: "网络不受支持",
+	wrongNetworkHint: "当前连接的 {network} 不受支持，请切换网络后继续",
+	switchToNetwork: "切换到 {network}",
+	switchingNetwork: "切换中...",
+
+	// 断开连接
+	disconnect: "断开连接",
+	disconnectConfirm: "确认要断开钱包连接吗？",
+	disconnectWarning: "断开连接后，您需要重新连接才能使用钱包功能。当前连接的钱包信息将被清除。",
+	confirmDisconnect: "确认断开",
+	cancel: "取消",
+
+	// 钱包详情
+	viewWalletDetails: "点击查看钱包详情",
+	walletDetails: "钱包详情",
+	walletDetailsHint: "查看完整的钱包信息",
+	walletAddress: "钱包地址",
+	ensName: "ENS 名称",
+	plainAddress: "普通地址",
+	copyAddress: "复制地址",
+	copy: "复制",
+	copied: "已复制",
+	balance: "账户余额",
+	refreshBalance: "刷新余额",
+	close: "关闭",
+
+	// 账户
+	accounts: "账户",
+	addAccounts: "添加账户",
+	requestingAccounts: "请求中...",
+	activeAccount: "当前账户",
+	switchAccount: "切换到该账户",
+
+	// 代币
+	tokens: "代币",
+	noTokens: "当前网络暂无代币",
+	removeToken: "移除代币",
+	tokenAddressPlaceholder: "代币合约地址 0x...",
+	importToken: "导入",
+	importingToken: "导入中...",
+	importTokenFailed: "导入失败，请确认合约地址是否正确",
+
+	// 转账
+	send: "发送",
+	sendHint: "转账原生币或代币",
+	sending: "发送中...",
+	sendFailed: "发送失败",
+	asset: "资产",
+	available: "可用: {amount} {symbol}",
+	recipient: "收款地址",
+	amount: "数量",
+	max: "最大",
+	estimatedFee: "预估手续费",
+	estimating: "计算中...",
+	maxFeeAndPriorityFee: "最高费用 / 优先费用",
+	estimateFailed: "手续费预估失败",
+	txSubmitted: "交易已提交",
+	viewOnExplorer: "在区块浏览器中查看",
+	back: "返回",
+
+	// 地址输入
+	addressPlaceholder: "0x... 或 name.eth",
+	invalidAddress: "无效的地址或 ENS 名称",
+	ensNotFound: "未找到该 ENS 名称",
+	transactionNotFound: "未找到交易",
+	ensLookupFailed: "ENS 解析失败",
+
+	// 交易记录
+	recentActivity: "最近交易",
+	noTransactions: "暂无交易",
+	clear: "清除",
+	txPending: "确认中",
+	txConfirmed: "已确认",
+	txFailed: "失败",
+	txReplaced: "已加速",
+	txCancelled: "已取消",
+
+	// 代币授权
+	approvals: "代币授权",
+	scanApprovals: "扫描",
+	scanningApprovals: "扫描中...",
+	noApprovals: "没有未撤销的授权",
+	approvalsNotScanned: "点击扫描查看当前账户的代币授权",
+	approvalsScanWindow: "根据最近 {blocks} 个区块的授权事件和已知授权对象查询，更早的授权可能未列出",
+	approvalsScanAll: "根据全部区块的授权事件和已知授权对象查询",
+	allowanceMustBeLower: "新额度必须小于当前额度",
+	unlimitedAllowance: "无限额度",
+	unlimitedApprovalsWarning: "{count} 个无限授权，授权对象可以转走全部余额",
+	revoke: "撤销",
+	reduceAllowance: "降低额度",
+	newAllowance: "新额度",
+	confirm: "确认",
+	revokeDescription: "撤销 {symbol} 对 {spender} 的授权",
+	approveDescription: "将 {symbol} 对 {spender} 的授权改为 {amount}",
+
+	// NFT
+	nfts: "NFT",
+	noNfts: "暂无 NFT",
+	nftsLoading: "加载中...",
+	setAsAvatar: "设为头像",
+	removeAvatar: "取消头像",
+
+	// 法币估值
+	portfolioValue: "资产总值",
+	displayCurrency: "显示货币",
+
+	// 链上交易记录
+	overview: "概览",
+	activity: "交易记录",
+	historyNormal: "交易",
+	historyInternal: "内部交易",
+	historyToken: "代币转账",
+	noHistory: "暂无交易记录",
+	loadMore: "加载更多",
+	historyLoading: "加载中...",
+	historyFailed: "失败",
+	historyUnavailable: "当前网络不支持查询交易记录",
+	historyApiKeyRequired: "区块浏览器需要 API Key 才能查询交易记录",
+	historyRateLimited: "请求过于频繁，请稍后重试",
+	viewAddressOnExplorer: "在区块浏览器中查看全部交易",
+	refresh: "刷新",
+
+	// 登录
+	signInStatus: "登录状态",
+	signedIn: "已登录",
+	notSignedIn: "未登录",
+	sessionExpiresAt: "有效期至 {time}",
+	signIn: "登录",
+	signingIn: "签名中...",
+	signInFailed: "登录失败",
+	signOut: "退出登录",
+
+	// 错误
+	walletNotConnected: "钱包未连接",
+	tokenNotFound: "未找到代币: {token}",
+	recipientUnresolved: "无法解析收款地址: {recipient}",
+	siweNotConfigured: "未配置 SIWE",
+	signatureInvalid: "签名验证失败",
+	accountChangedDuringSignIn: "签名期间账户已变化",
+	errorUserRejected: "已在钱包中拒绝请求",
+	errorUnauthorized: "钱包未授权该操作",
+	errorUnsupportedMethod: "当前钱包不支持该操作",
+	errorDisconnected: "钱包已断开与网络的连接",
+	errorRequestPending: "钱包中已有待处理的请求，请先在钱包中处理",
+	errorUnrecognizedChain: "钱包中没有该网络",
+	errorChainNotConfigured: "未配置的网络",
+	errorRpc: "网络请求失败，请稍后重试",
+	errorTokenNotFound: "未找到代币",
+	errorInvalidAmount: "数量无效",
+	errorUnknown: "操作失败",
+	sessionExpired: "连接已过期，请重新连接",
+	dismiss: "关闭提示",
+};
@@ -1,4 +1,148 @@
 export { Header } from "./components/Header";
 export { WalletComponent } from "./components/Wallet";
-export { useWalletStore, NETWORKS } from "./stores/walletStore";
-export type { WalletState } from "./stores/walletStore";
+export { AddressInput } from "./components/AddressInput";
+export { ErrorToast } from "./components/ErrorToast";
+export { TransactionHistory } from "./components/TransactionHistory";
+export { ApprovalList } from "./components/ApprovalList";
+export { NftGallery } from "./components/NftGallery";
+export type { WalletComponentProps, WalletRenderProps } from "./components/Wallet";
+export type { WalletTheme, WalletClassNames, WalletSlot } from "./components/theme";
+export { WalletProvider } from "./components/WalletProvider";
+export { useWalletStore, createWalletStore, NETWORKS, registerConnector, configureWallet } from "./stores/walletStore";
+export type { AccountInfo, WalletState, WalletStore, WalletStoreApi, WalletStoreOptions } from "./stores/walletStore";
+export { useWallet, useWalletStoreApi } from "./stores/context";
+export type { WalletEvents, WalletEventName } from "./stores/events";
+
+// 持久化存储
+export { localStorageAdapter, sessionStorageAdapter, memoryStorage, cookieStorage } from "./stores/storage";
+export type { WalletStorage, CookieStorageOptions } from "./stores/storage";
+export { PERSIST_VERSION } from "./stores/migrations";
+
+// 无样式 hooks
+export {
+	useConnect,
+	useNetworkSwitcher,
+	useAccountDetails,
+	useAccounts,
+	useDisconnect,
+	useWalletError,
+	useWalletSync,
+	useWatchOnly,
+	useTransactionHistory,
+	useApprovals,
+	useNfts,
+	useContractRead,
+	useContractWrite,
+	useWalletEvent,
+} from "./hooks";
+export type {
+	UseConnectResult,
+	UseNetworkSwitcherResult,
+	UseAccountDetailsResult,
+	UseAccountsResult,
+	UseDisconnectResult,
+	UseWalletErrorResult,
+	UseWatchOnlyResult,
+	UseTransactionHistoryResult,
+	UseApprovalsResult,
+	UseNftsResult,
+	UseContractReadParams,
+	UseContractReadResult,
+	UseContractWriteParams,
+	UseContractWriteResult,
+	ContractWriteOptions,
+} from "./hooks";
+
+// 错误
+export { WalletError, isWalletError, toWalletError, WALLET_ERROR_MESSAGES } from "./errors";
+export type { WalletAction, WalletErrorCode } from "./errors";
+
+// 配置
+export { CHAINS, findChain, buildExplorerUrl } from "./config";
+export type { AutoRefreshConfig, ChainConfig, SessionPolicy, WalletConfig } from "./config";
+
+// 登录
+export { createSiweMessage, isSessionExpired } from "./auth/siwe";
+export type { SiweConfig, SiweMessageParams, SiweSession } from "./auth/siwe";
+
+// 签名
+export {
+	hashTypedData,
+	serializeTypedData,
+	verifySignature,
+	verifyHashSignature,
+	verifyMessageSignature,
+	verifyTypedDataSignature,
+} from "./auth/signature";
+export type {
+	TypedDataDefinition,
+	TypedDataDomain,
+	TypedDataField,
+	TypedDataTypes,
+	VerifySignatureParams,
+} from "./auth/signature";
+
+// 国际化
+export { BUILTIN_MESSAGES, DEFAULT_LOCALE, translate, formatAmount } from "./i18n";
+export type { Messages, MessageKey, MessageCatalogs } from "./i18n";
+
+// ENS
+export { createEnsResolver, isEnsName } from "./ens";
+export type { EnsConfig, EnsProfile, EnsResolver } from "./ens";
+
+// 连接器
+export { injected, eip6963, privateKeyConnector, watchOnlyConnector, requestProviders, getVisibleConnectors } from "./connectors";
+export type {
+	Connector,
+	ConnectorEvents,
+	ConnectorEventName,
+	EIP1193Provider,
+	EIP6963ProviderDetail,
+	EIP6963ProviderInfo,
+	ProviderMessage,
+	RequestArguments,
+	InjectedConnectorOptions,
+	PrivateKeyConnectorOptions,
+	WatchOnlyConnectorOptions,
+} from "./connectors";
+
+// 代币
+export { DEFAULT_TOKENS, ERC20_ABI, fetchTokenInfo, fetchTokenBalances, mergeTokenLists } from "./tokens";
+export type { TokenInfo } from "./tokens";
+
+// 合约调用
+export { createReadCache } from "./contracts";
+export type {
+	Abi,
+	AbiFunction,
+	AbiParameter,
+	ContractAbi,
+	ContractFunctionArgs,
+	ContractFunctionResult,
+	ContractsConfig,
+	ReadContractParams,
+	ReadFunctionName,
+	WriteContractParams,
+	WriteFunctionName,
+} from "./contracts";
+
+// 代币授权
+export { scanApprovals, buildApproveRequest, getAllowance, isUnlimitedAllowance, requiresZeroFirst, DEFAULT_LOOKBACK_BLOCKS } from "./approvals";
+export type { ApprovalEntry, ApprovalsConfig, KnownSpender, ScanApprovalsOptions } from "./approvals";
+
+// NFT
+export { fetchNfts, fetchNftMetadata, ownsNft, resolveUri } from "./nfts";
+export type { NftAvatar, NftCollection, NftConfig, NftIndexer, NftItem, NftMetadata, NftOwnership, NftStandard } from "./nfts";
+
+// 交易
+export { checkTransaction } from "./transactions/tracker";
+export type { TrackedTransaction, TransactionStatus } from "./transactions/tracker";
+export type { SendTransactionParams, FeeEstimate } from "./transactions/send";
+
+// 法币估值
+export { chainlinkPriceSource, httpPriceSource, createPriceOracle, CHAINLINK_FEEDS } from "./prices";
+export type { PriceConfig, PriceOracle, PriceSource, ChainlinkPriceSourceOptions, HttpPriceSourceOptions } from "./prices";
+
+// 交易记录
+export { createHistoryClient, etherscanFetcher, decodeMethod } from "./history";
+export type { HistoryClient, HistoryConfig, HistoryEntry, HistoryFetcher, HistoryKind, HistoryPage, HistoryPageParams } from "./history";
@@ -0,0 +1,65 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "../testing";
+import { NETWORKS, findChain } from "../config";
+import { fetchNfts, ownsNft } from "./index";
+
+const COLLECTION = "0x00000000000000000000000000000000000000cc";
+const ERC1155_ABI = [
+	"function balanceOf(address account, uint256 id) view returns (uint256)",
+	"function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+	"function uri(uint256 id) view returns (string)",
+];
+
+describe("fetchNfts", () => {
+	it("expands every {id} in ERC-1155 uris", async () => {
+		const mock = createMockProvider({
+			contracts: {
+				[COLLECTION]: {
+					abi: ERC1155_ABI,
+					functions: {
+						balanceOfBatch: ([, ids]) => (ids as bigint[]).map(() => 1n),
+						uri: () => `data:application/json,{"name":"{id}","image":"ipfs://{id}.png"}`,
+					},
+				},
+			},
+		});
+		const provider = new ethers.BrowserProvider(mock);
+		const chain = findChain(NETWORKS, "0x1")!;
+
+		const [nft] = await fetchNfts(provider, chain, mock.accounts[0], {
+			collections: { "0x1": [{ address: COLLECTION, standard: "erc1155", tokenIds: ["1"] }] },
+		});
+		const id = 1n.toString(16).padStart(64, "0");
+		expect(nft.name).toBe(id);
+		expect(nft.image).toBe(`https://ipfs.io/ipfs/${id}.png`);
+	});
+});
+
+describe("ownsNft", () => {
+	it("treats reverted ownership calls as not owned", async () => {
+		let owner: string | null = null;
+		const mock = createMockProvider({
+			contracts: {
+				[COLLECTION]: {
+					abi: ["function ownerOf(uint256 tokenId) view returns (address)"],
+					functions: {
+						ownerOf: () => {
+							if (!owner) throw new Error("nonexistent token");
+							return owner;
+						},
+					},
+				},
+			},
+		});
+		const provider = new ethers.BrowserProvider(mock);
+		const nft = { contract: COLLECTION, tokenId: "7", standard: "erc721" as const };
+
+		owner = mock.accounts[0];
+		expect(await ownsNft(provider, mock.accounts[0], nft)).toBe(true);
+		owner = mock.accounts[1];
+		expect(await ownsNft(provider, mock.accounts[0], nft)).toBe(false);
+		owner = null;
+		expect(await ownsNft(provider, mock.accounts[0], { contract: COLLECTION, tokenId: "7" })).toBe(false);
+	});
+});
@@ -0,0 +1,259 @@
+import { ethers } from "ethers";
+import type { ChainConfig } from "../config";
+
+export type NftStandard = "erc721" | "erc1155";
+
+// 需要查询的 NFT 合约
+export interface NftCollection {
+	address: string;
+	standard: NftStandard;
+	name?: string;
+	tokenIds?: string[]; // ERC-1155 必填；ERC-721 合约不支持枚举时按这些 id 检查持有人
+}
+
+// 索引服务返回的持有记录，未带元数据时通过 tokenURI / uri 查询
+export interface NftOwnership {
+	contract: string;
+	tokenId: string;
+	standard: NftStandard;
+	balance?: string; // ERC-1155 的持有数量，默认 "1"
+	collectionName?: string;
+	metadata?: NftMetadata;
+}
+
+// 通过索引服务查询持有的 NFT，例如 Alchemy、Reservoir 或自建服务
+export type NftIndexer = (params: { chain: ChainConfig; owner: string }) => Promise<NftOwnership[]>;
+
+export interface NftConfig {
+	collections?: Record<string, NftCollection[]>; // 按 chainId 分组
+	indexer?: NftIndexer; // 配置后与 collections 的结果合并
+	ipfsGateway?: string; // 默认 https://ipfs.io/ipfs/
+	maxPerCollection?: number; // 每个合约最多读取的数量，默认 50
+}
+
+export interface NftMetadata {
+	name?: string;
+	description?: string;
+	image?: string;
+	image_url?: string;
+	image_data?: string; // 内联的 SVG
+}
+
+export interface NftItem {
+	id: string; // chainId:小写合约地址:tokenId
+	chainId: string;
+	contract: string;
+	tokenId: string;
+	standard: NftStandard;
+	balance: string;
+	collectionName: string | null;
+	name: string | null;
+	description: string | null;
+	image: string | null; // 已转换为浏览器可以直接加载的地址
+}
+
+// 设为头像的 NFT
+export interface NftAvatar {
+	chainId: string;
+	contract: string;
+	tokenId: string;
+	standard?: NftStandard; // 旧版本保存的头像没有该字段
+	image: string;
+}
+
+const ERC721_ABI = [
+	"function name() view returns (string)",
+	"function balanceOf(address owner) view returns (uint256)",
+	"function ownerOf(uint256 tokenId) view returns (address)",
+	"function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)",
+	"function tokenURI(uint256 tokenId) view returns (string)",
+];
+
+const ERC1155_ABI = [
+	"function balanceOf(address account, uint256 id) view returns (uint256)",
+	"function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+	"function uri(uint256 id) view returns (string)",
+];
+
+const DEFAULT_IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+const DEFAULT_MAX_PER_COLLECTION = 50;
+
+// 把 ipfs:// 和 ar:// 地址转换为网关地址，其余地址原样返回
+export const resolveUri = (uri: string, ipfsGateway = DEFAULT_IPFS_GATEWAY) => {
+	const value = uri.trim();
+	if (value.startsWith("ipfs://")) {
+		const gateway = ipfsGateway.endsWith("/") ? ipfsGateway : `${ipfsGateway}/`;
+		return gateway + value.slice("ipfs://".length).replace(/^ipfs\//, "");
+	}
+	if (value.startsWith("ar://")) {
+		return `https://arweave.net/${value.slice("ar://".length)}`;
+	}
+	return value;
+};
+
+// 读取元数据，支持 data: URI（base64 或文本）和网络地址
+export const fetchNftMetadata = async (uri: string, ipfsGateway?: string): Promise<NftMetadata> => {
+	if (uri.startsWith("data:")) {
+		const [header, ...rest] = uri.slice("data:".length).split(",");
+		const body = rest.join(",");
+		const text = header.endsWith(";base64")
+			? ethers.toUtf8String(ethers.decodeBase64(body))
+			: decodeURIComponent(body);
+		return JSON.parse(text);
+	}
+	const response = await fetch(resolveUri(uri, ipfsGateway));
+	if (!response.ok) {
+		throw new Error(`读取 NFT 元数据失败: ${response.status}`);
+	}
+	return response.json();
+};
+
+// 元数据中的图片地址，内联 SVG 转换为 data: URI
+const metadataImage = (metadata: NftMetadata, ipfsGateway?: string) => {
+	const image = metadata.image ?? metadata.image_url;
+	if (image) return resolveUri(image, ipfsGateway);
+	if (metadata.image_data) return `data:image/svg+xml;utf8,${encodeURIComponent(metadata.image_data)}`;
+	return null;
+};
+
+// ERC-1155 的 uri 中所有 {id} 替换为 64 位小写十六进制
+const expandTokenUri = (uri: string, tokenId: string) =>
+	uri.replaceAll("{id}", BigInt(tokenId).toString(16).padStart(64, "0"));
+
+// 读取配置的 ERC-721 合约中 owner 持有的 tokenId，优先使用 ERC721Enumerable
+const fetchErc721Ids = async (contract: ethers.Contract, owner: string, collection: NftCollection, limit: number) => {
+	const balance = Number(await contract.balanceOf(owner));
+	if (balance === 0) return [];
+	try {
+		const count = Math.min(balance, limit);
+		const ids: bigint[] = await Promise.all(
+			Array.from({ length: count }, (_, index) => contract.tokenOfOwnerByIndex(owner, index))
+		);
+		return ids.map(id => id.toString());
+	} catch {
+		// 不支持枚举时逐个检查配置的 tokenId
+		const candidates = (collection.tokenIds ?? []).slice(0, limit);
+		const owners = await Promise.all(candidates.map(id => contract.ownerOf(id).catch(() => null)));
+		return candidates.filter((_, index) => owners[index]?.toLowerCase() === owner.toLowerCase());
+	}
+};
+
+const fetchCollection = async (
+	provider: ethers.Provider,
+	owner: string,
+	collection: NftCollection,
+	limit: number,
+): Promise<NftOwnership[]> => {
+	if (collection.standard === "erc1155") {
+		const ids = collection.tokenIds ?? [];
+		if (ids.length === 0) return [];
+		const contract = new ethers.Contract(collection.address, ERC1155_ABI, provider);
+		const balances: bigint[] = await contract.balanceOfBatch(ids.map(() => owner), ids);
+		return ids
+			.map((tokenId, index) => ({ tokenId, balance: balances[index] }))
+			.filter(item => item.balance > 0n)
+			.slice(0, limit)
+			.map(item => ({
+				contract: collection.address,
+				tokenId: item.tokenId,
+				standard: "erc1155" as const,
+				balance: item.balance.toString(),
+				collectionName: collection.name,
+			}));
+	}
+
+	const contract = new ethers.Contract(collection.address, ERC721_ABI, provider);
+	const [ids, name] = await Promise.all([
+		fetchErc721Ids(contract, owner, collection, limit),
+		collection.name ? Promise.resolve(collection.name) : (contract.name() as Promise<string>).catch(() => undefined),
+	]);
+	return ids.map(tokenId => ({
+		contract: collection.address,
+		tokenId,
+		standard: "erc721" as const,
+		collectionName: name,
+	}));
+};
+
+// 补全元数据，单个 NFT 读取失败时只显示合约和 tokenId
+const toItem = async (
+	provider: ethers.Provider,
+	chainId: string,
+	ownership: NftOwnership,
+	ipfsGateway?: string,
+): Promise<NftItem> => {
+	let metadata = ownership.metadata ?? null;
+	if (!metadata) {
+		try {
+			const contract = ownership.standard === "erc1155"
+				? new ethers.Contract(ownership.contract, ERC1155_ABI, provider)
+				: new ethers.Contract(ownership.contract, ERC721_ABI, provider);
+			const uri: string = ownership.standard === "erc1155"
+				? expandTokenUri(await contract.uri(ownership.tokenId), ownership.tokenId)
+				: await contract.tokenURI(ownership.tokenId);
+			metadata = uri ? await fetchNftMetadata(uri, ipfsGateway) : null;
+		} catch (error) {
+			console.error(`读取 NFT ${ownership.contract} #${ownership.tokenId} 元数据失败:`, error);
+		}
+	}
+	return {
+		id: `${chainId}:${ownership.contract.toLowerCase()}:${ownership.tokenId}`,
+		chainId,
+		contract: ethers.getAddress(ownership.contract),
+		tokenId: ownership.tokenId,
+		standard: ownership.standard,
+		balance: ownership.balance ?? "1",
+		collectionName: ownership.collectionName ?? null,
+		name: metadata?.name ?? null,
+		description: metadata?.description ?? null,
+		image: metadata ? metadataImage(metadata, ipfsGateway) : null,
+	};
+};
+
+// 查询 owner 在当前网络持有的 NFT：配置的合约和索引服务的结果合并去重
+export const fetchNfts = async (
+	provider: ethers.Provider,
+	chain: ChainConfig,
+	owner: string,
+	config: NftConfig,
+): Promise<NftItem[]> => {
+	const { collections = {}, indexer, ipfsGateway, maxPerCollection = DEFAULT_MAX_PER_COLLECTION } = config;
+
+	const results = await Promise.all([
+		...(collections[chain.chainId] ?? []).map(collection =>
+			fetchCollection(provider, owner, collection, maxPerCollection).catch((error) => {
+				console.error(`查询 NFT 合约 ${collection.address} 失败:`, error);
+				return [];
+			})
+		),
+		indexer ? indexer({ chain, owner }) : Promise.resolve([]),
+	]);
+
+	const seen = new Set<string>();
+	const ownerships = results.flat().filter((item) => {
+		const key = `${item.contract.toLowerCase()}:${item.tokenId}`;
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+	return Promise.all(ownerships.map(item => toItem(provider, chain.chainId, item, ipfsGateway)));
+};
+
+// owner 是否仍持有该 NFT，没有 standard 时依次按 ERC-721 和 ERC-1155 检查
+// 合约调用失败（tokenId 不存在、已销毁或不是该标准的合约）视为不再持有，节点错误向上抛出
+export const ownsNft = async (provider: ethers.Provider, owner: string, nft: Pick<NftAvatar, "contract" | "tokenId" | "standard">) => {
+	const standards: NftStandard[] = nft.standard ? [nft.standard] : ["erc721", "erc1155"];
+	for (const standard of standards) {
+		try {
+			if (standard === "erc1155") {
+				const contract = new ethers.Contract(nft.contract, ERC1155_ABI, provider);
+				return (await contract.balanceOf(owner, nft.tokenId) as bigint) > 0n;
+			}
+			const contract = new ethers.Contract(nft.contract, ERC721_ABI, provider);
+			return (await contract.ownerOf(nft.tokenId) as string).toLowerCase() === owner.toLowerCase();
+		} catch (error) {
+			if (!ethers.isError(error, "CALL_EXCEPTION") && !ethers.isError(error, "BAD_DATA")) throw error;
+		}
+	}
+	return false;
+};
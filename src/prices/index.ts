@@ -0,0 +1,202 @@
+import { ethers } from "ethers";
+import { CHAINS } from "../config/chains";
+
+// 价格来源：按代币符号查询价格，查不到的符号不出现在结果中
+export interface PriceSource {
+	getPrices: (symbols: string[], currency: string) => Promise<Record<string, number>>;
+}
+
+export interface PriceConfig {
+	sources?: PriceSource[]; // 按顺序查询，前面的来源查不到时使用后面的，默认只使用 Chainlink
+	currency?: string; // 默认显示货币，默认 USD
+	currencies?: string[]; // 可选择的显示货币，默认 USD 和 EUR
+	cacheTtl?: number; // 缓存时间（毫秒），默认 1 分钟
+}
+
+export interface PriceOracle {
+	getPrices: (symbols: string[], currency: string) => Promise<Record<string, number>>;
+	clearCache: () => void;
+}
+
+// 包装代币按原生币计价
+const SYMBOL_ALIASES: Record<string, string> = {
+	WETH: "ETH",
+	WBNB: "BNB",
+	WPOL: "POL",
+};
+
+const normalizeSymbol = (symbol: string) => {
+	const upper = symbol.toUpperCase();
+	return SYMBOL_ALIASES[upper] ?? upper;
+};
+
+const AGGREGATOR_ABI = [
+	"function decimals() view returns (uint8)",
+	"function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+// 以太坊主网上的 Chainlink 喂价合约
+export const CHAINLINK_FEEDS: Record<string, string> = {
+	"ETH/USD": "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419",
+	"BTC/USD": "0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c",
+	"LINK/USD": "0x2c1d072e956AFFC0D435Cb7AC38EF18d24d9127c",
+	"USDC/USD": "0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6",
+	"USDT/USD": "0x3E7d1eAB13ad0104d2750B8863b489D65364e32D",
+	"DAI/USD": "0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9",
+	"EUR/USD": "0xb49f677943BC038e9857d61E7d053CaA2C1734C1",
+};
+
+export interface ChainlinkPriceSourceOptions {
+	rpcUrl?: string; // 喂价合约所在网络的 RPC，默认以太坊主网
+	chainId?: number; // 默认 1
+	feeds?: Record<string, string>; // "ETH/USD" 形式的交易对到合约地址，会与内置喂价合并
+	maxAge?: number; // 超过该时间（秒）未更新的价格视为无效，默认 1 天
+}
+
+// 通过 latestRoundData 读取 Chainlink 喂价，没有直接交易对时经 USD 换算
+export const chainlinkPriceSource = (options: ChainlinkPriceSourceOptions = {}): PriceSource => {
+	const { rpcUrl = CHAINS.ethereum.rpcUrls[0], chainId = 1, maxAge = 24 * 60 * 60 } = options;
+	const feeds = { ...CHAINLINK_FEEDS, ...options.feeds };
+	let provider: ethers.JsonRpcProvider | null = null;
+
+	// 延迟创建 provider，避免未使用价格时发起请求
+	const getProvider = () => {
+		if (!provider) {
+			provider = new ethers.JsonRpcProvider(rpcUrl, ethers.Network.from(chainId), { staticNetwork: true });
+		}
+		return provider;
+	};
+
+	const readFeed = async (pair: string): Promise<number | null> => {
+		const address = feeds[pair];
+		if (!address) return null;
+		try {
+			const aggregator = new ethers.Contract(address, AGGREGATOR_ABI, getProvider());
+			const [decimals, round] = await Promise.all([aggregator.decimals(), aggregator.latestRoundData()]);
+			const answer = round.answer as bigint;
+			const updatedAt = Number(round.updatedAt);
+			if (answer <= 0n || Date.now() / 1000 - updatedAt > maxAge) return null;
+			return Number(ethers.formatUnits(answer, decimals));
+		} catch (error) {
+			console.error(`读取喂价 ${pair} 失败:`, error);
+			return null;
+		}
+	};
+
+	return {
+		getPrices: async (symbols, currency) => {
+			const quote = currency.toUpperCase();
+			// 非 USD 计价时需要该货币对 USD 的汇率
+			const quoteInUsd = quote === "USD" ? 1 : await readFeed(`${quote}/USD`);
+			const entries = await Promise.all(symbols.map(async (symbol) => {
+				const base = normalizeSymbol(symbol);
+				if (base === quote) return [symbol, 1] as const;
+				const direct = await readFeed(`${base}/${quote}`);
+				if (direct !== null) return [symbol, direct] as const;
+				if (quote === "USD" || !quoteInUsd) return [symbol, null] as const;
+				const usd = await readFeed(`${base}/USD`);
+				return [symbol, usd === null ? null : usd / quoteInUsd] as const;
+			}));
+			return Object.fromEntries(entries.filter((entry): entry is readonly [string, number] => entry[1] !== null));
+		},
+	};
+};
+
+export interface HttpPriceSourceOptions {
+	// 请求地址，默认 CryptoCompare 的 pricemulti 接口
+	url?: (symbols: string[], currency: string) => string;
+	// 解析响应，默认格式为 { ETH: { USD: 1234.5 } }
+	parse?: (body: unknown, symbols: string[], currency: string) => Record<string, number>;
+	fetch?: typeof fetch;
+}
+
+const defaultPriceUrl = (symbols: string[], currency: string) =>
+	`https://min-api.cryptocompare.com/data/pricemulti?fsyms=${encodeURIComponent(symbols.join(","))}&tsyms=${encodeURIComponent(currency)}`;
+
+const defaultParse = (body: unknown, symbols: string[], currency: string) => {
+	const data = (body ?? {}) as Record<string, Record<string, unknown> | undefined>;
+	const prices: Record<string, number> = {};
+	for (const symbol of symbols) {
+		const price = data[symbol]?.[currency];
+		if (typeof price === "number" && price > 0) prices[symbol] = price;
+	}
+	return prices;
+};
+
+// HTTP 价格接口，符号按大写查询后映射回原符号
+export const httpPriceSource = (options: HttpPriceSourceOptions = {}): PriceSource => {
+	const { url = defaultPriceUrl, parse = defaultParse, fetch: fetchImpl = (...args) => fetch(...args) } = options;
+
+	return {
+		getPrices: async (symbols, currency) => {
+			const quote = currency.toUpperCase();
+			const bases = [...new Set(symbols.map(normalizeSymbol))];
+			const response = await fetchImpl(url(bases, quote));
+			if (!response.ok) {
+				throw new Error(`价格接口请求失败: ${response.status}`);
+			}
+			const prices = parse(await response.json(), bases, quote);
+			const result: Record<string, number> = {};
+			for (const symbol of symbols) {
+				const price = prices[normalizeSymbol(symbol)];
+				if (price !== undefined) result[symbol] = price;
+			}
+			return result;
+		},
+	};
+};
+
+const DEFAULT_CACHE_TTL = 60 * 1000;
+
+// 组合多个价格来源，带缓存和请求合并
+export const createPriceOracle = (sources: PriceSource[], cacheTtl = DEFAULT_CACHE_TTL): PriceOracle => {
+	const cache = new Map<string, { value: number | null; expiresAt: number }>();
+	const inflight = new Map<string, Promise<Record<string, number>>>();
+
+	const load = async (symbols: string[], currency: string) => {
+		const prices: Record<string, number> = {};
+		let missing = symbols;
+		for (const source of sources) {
+			if (missing.length === 0) break;
+			try {
+				Object.assign(prices, await source.getPrices(missing, currency));
+			} catch (error) {
+				console.error("查询价格失败:", error);
+			}
+			missing = missing.filter(symbol => prices[symbol] === undefined);
+		}
+		// 查不到的价格也缓存，避免重复请求
+		const expiresAt = Date.now() + cacheTtl;
+		for (const symbol of symbols) {
+			cache.set(`${currency}:${symbol}`, { value: prices[symbol] ?? null, expiresAt });
+		}
+		return prices;
+	};
+
+	return {
+		getPrices: async (symbols, currency) => {
+			const quote = currency.toUpperCase();
+			const unique = [...new Set(symbols.map(symbol => symbol.toUpperCase()))];
+			const prices: Record<string, number> = {};
+			const stale: string[] = [];
+			for (const symbol of unique) {
+				const hit = cache.get(`${quote}:${symbol}`);
+				if (hit && hit.expiresAt > Date.now()) {
+					if (hit.value !== null) prices[symbol] = hit.value;
+				} else {
+					stale.push(symbol);
+				}
+			}
+			if (stale.length === 0) return prices;
+
+			const key = `${quote}:${stale.sort().join(",")}`;
+			let request = inflight.get(key);
+			if (!request) {
+				request = load(stale, quote).finally(() => inflight.delete(key));
+				inflight.set(key, request);
+			}
+			return { ...prices, ...await request };
+		},
+		clearCache: () => cache.clear(),
+	};
+};
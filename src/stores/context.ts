@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { useStore } from 'zustand';
+import { useWalletStore, type WalletStore, type WalletStoreApi } from './walletStore';
+
+export const WalletStoreContext = createContext<WalletStoreApi | null>(null);
+
+// 最近的 WalletProvider 中的 store，没有 Provider 时使用默认实例
+export const useWalletStoreApi = (): WalletStoreApi => useContext(WalletStoreContext) ?? useWalletStore;
+
+type UseWallet = {
+	(): WalletStore;
+	<T>(selector: (state: WalletStore) => T): T;
+};
+
+// 读取当前 store 的状态，用法与 useWalletStore 相同
+export const useWallet: UseWallet = <T,>(selector?: (state: WalletStore) => T) => {
+	return useStore(useWalletStoreApi(), selector ?? ((state: WalletStore) => state as T));
+};
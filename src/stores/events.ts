@@ -0,0 +1,43 @@
+import type { ProviderMessage } from '../connectors';
+import type { WalletError } from '../errors';
+
+// 宿主应用可以订阅的钱包事件，由 store 的状态变化和当前连接器的事件产生
+export interface WalletEvents {
+	connect: (event: { address: string; chainId: string; connectorId: string | null }) => void;
+	disconnect: (event: { error: WalletError | null }) => void; // 用户断开时 error 为 null
+	accountChanged: (event: { address: string; previous: string | null }) => void;
+	chainChanged: (event: { chainId: string; previous: string | null }) => void;
+	message: (event: ProviderMessage) => void;
+	error: (event: { error: WalletError }) => void; // 后台操作失败，例如记录或检查交易、恢复连接，不会抛给调用方
+}
+
+export type WalletEventName = keyof WalletEvents;
+
+export interface WalletEventEmitter {
+	on: <E extends WalletEventName>(event: E, listener: WalletEvents[E]) => () => void; // 返回取消订阅函数
+	emit: <E extends WalletEventName>(event: E, payload: Parameters<WalletEvents[E]>[0]) => void;
+}
+
+export const createEventEmitter = (): WalletEventEmitter => {
+	const listeners = new Map<WalletEventName, Set<(payload: never) => void>>();
+
+	return {
+		on: (event, listener) => {
+			if (!listeners.has(event)) listeners.set(event, new Set());
+			listeners.get(event)!.add(listener);
+			return () => {
+				listeners.get(event)?.delete(listener);
+			};
+		},
+		// 单个监听函数出错不影响其他监听函数和 store
+		emit: (event, payload) => {
+			listeners.get(event)?.forEach((listener) => {
+				try {
+					(listener as (payload: unknown) => void)(payload);
+				} catch (error) {
+					console.error(`钱包事件 ${event} 处理失败:`, error);
+				}
+			});
+		},
+	};
+};
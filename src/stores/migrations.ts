@@ -0,0 +1,29 @@
+// 持久化状态的当前版本，修改持久化结构时递增并在 MIGRATIONS 中添加迁移
+export const PERSIST_VERSION = 2;
+
+type PersistedState = Record<string, unknown>;
+
+// key 为迁移后的版本号，按版本依次执行
+const MIGRATIONS: Record<number, (state: PersistedState) => PersistedState> = {
+	// v1：增加已授权账户列表
+	1: (state) => ({
+		...state,
+		accounts: state.isConnected && typeof state.address === "string" ? [state.address] : [],
+	}),
+	// v2：增加连接时间，已有的连接从迁移时开始计算有效期
+	2: (state) => ({
+		...state,
+		connectedAt: state.isConnected ? Date.now() : null,
+		lastActiveAt: state.isConnected ? Date.now() : null,
+		disconnectedAt: null,
+	}),
+};
+
+// 把旧版本的持久化状态迁移到当前版本
+export const migratePersistedState = (persisted: unknown, version: number): PersistedState => {
+	let state = (persisted && typeof persisted === "object" ? persisted : {}) as PersistedState;
+	for (let next = version + 1; next <= PERSIST_VERSION; next++) {
+		state = MIGRATIONS[next]?.(state) ?? state;
+	}
+	return state;
+};
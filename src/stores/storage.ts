@@ -0,0 +1,87 @@
+import type { StateStorage } from 'zustand/middleware';
+
+// 持久化存储适配器，getItem/setItem 可以是同步或异步的
+export type WalletStorage = StateStorage;
+
+// Web Storage 适配器：服务端渲染、隐私模式或配额不足时静默失败
+const webStorage = (getStorage: () => Storage): WalletStorage => ({
+	getItem: (name) => {
+		try {
+			return getStorage().getItem(name);
+		} catch {
+			return null;
+		}
+	},
+	setItem: (name, value) => {
+		try {
+			getStorage().setItem(name, value);
+		} catch {
+			// 忽略写入失败
+		}
+	},
+	removeItem: (name) => {
+		try {
+			getStorage().removeItem(name);
+		} catch {
+			// 忽略删除失败
+		}
+	},
+});
+
+export const localStorageAdapter = (): WalletStorage => webStorage(() => window.localStorage);
+
+// 关闭标签页后清除
+export const sessionStorageAdapter = (): WalletStorage => webStorage(() => window.sessionStorage);
+
+// 仅保存在内存中，适合服务端渲染和测试
+export const memoryStorage = (initial: Record<string, string> = {}): WalletStorage => {
+	const items = new Map(Object.entries(initial));
+	return {
+		getItem: (name) => items.get(name) ?? null,
+		setItem: (name, value) => {
+			items.set(name, value);
+		},
+		removeItem: (name) => {
+			items.delete(name);
+		},
+	};
+};
+
+export interface CookieStorageOptions {
+	path?: string;
+	domain?: string;
+	maxAge?: number; // 秒，默认 30 天
+	sameSite?: "Strict" | "Lax" | "None";
+	secure?: boolean;
+	getCookies?: () => string | undefined; // 服务端读取请求头中的 Cookie，默认读取 document.cookie
+}
+
+// Cookie 存储，服务端可以读取到同一份状态；单个 Cookie 限制约 4KB，交易记录较多时可能写入失败
+export const cookieStorage = (options: CookieStorageOptions = {}): WalletStorage => {
+	const { path = "/", domain, maxAge = 60 * 60 * 24 * 30, sameSite = "Lax", secure, getCookies } = options;
+
+	const readCookies = () => getCookies?.() ?? (typeof document !== "undefined" ? document.cookie : "");
+
+	const write = (name: string, value: string, age: number) => {
+		if (typeof document === "undefined") return;
+		const parts = [
+			`${encodeURIComponent(name)}=${encodeURIComponent(value)}`,
+			`Path=${path}`,
+			`Max-Age=${age}`,
+			`SameSite=${sameSite}`,
+		];
+		if (domain) parts.push(`Domain=${domain}`);
+		if (secure ?? sameSite === "None") parts.push("Secure");
+		document.cookie = parts.join("; ");
+	};
+
+	return {
+		getItem: (name) => {
+			const prefix = `${encodeURIComponent(name)}=`;
+			const cookie = readCookies().split(/;\s*/).find(item => item.startsWith(prefix));
+			return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+		},
+		setItem: (name, value) => write(name, value, maxAge),
+		removeItem: (name) => write(name, "", 0),
+	};
+};
@@ -0,0 +1,27 @@
+export interface TabSync {
+	notify: () => void; // 通知其他标签页持久化状态已变化
+	close: () => void;
+}
+
+// 使用同一 storageKey 的标签页之间同步：优先使用 BroadcastChannel，
+// 不支持时退回到 localStorage 的 storage 事件（由持久化写入自动触发，notify 不需要做什么）
+export const createTabSync = (storageKey: string, onRemoteChange: () => void): TabSync => {
+	if (typeof BroadcastChannel !== "undefined") {
+		const channel = new BroadcastChannel(`${storageKey}:sync`);
+		channel.onmessage = () => onRemoteChange();
+		return {
+			// 订阅回调先于持久化写入执行，延后到写入完成再通知
+			notify: () => queueMicrotask(() => channel.postMessage("changed")),
+			close: () => channel.close(),
+		};
+	}
+
+	const handleStorage = (event: StorageEvent) => {
+		if (event.key === storageKey) onRemoteChange();
+	};
+	window.addEventListener("storage", handleStorage);
+	return {
+		notify: () => {},
+		close: () => window.removeEventListener("storage", handleStorage),
+	};
+};
@@ -0,0 +1,254 @@
+import { ethers } from "ethers";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createMockProvider, createTestWalletStore, installMockProvider } from "../testing";
+import type { MockProviderOptions } from "../testing";
+import { useWalletStore } from "./walletStore";
+
+const SEPOLIA = "0xaa36a7";
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const SPENDER = "0x00000000000000000000000000000000000000bb";
+const USDT = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
+
+const stops: (() => void)[] = [];
+
+afterEach(() => {
+	stops.splice(0).forEach(stop => stop());
+});
+
+// 默认连接到 sepolia（没有内置代币），关闭余额自动刷新，交易轮询间隔缩短
+const setup = (providerOptions: MockProviderOptions = {}, storeOptions: Parameters<typeof createTestWalletStore>[0] = {}) => {
+	const provider = createMockProvider({ chainId: SEPOLIA, ...providerOptions });
+	const { store } = createTestWalletStore({ provider, autoRefresh: { mode: "off" }, pollingInterval: 20, ...storeOptions });
+	stops.push(store.start());
+	return { store, provider };
+};
+
+describe("walletStore", () => {
+	it("connects and loads the account balance", async () => {
+		const { store, provider } = setup({}, { ensNames: { "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266": "alice.eth" } });
+		await store.getState().connectWallet();
+
+		const state = store.getState();
+		expect(state.isConnected).toBe(true);
+		expect(state.address).toBe(provider.accounts[0]);
+		expect(state.accounts).toEqual(provider.accounts);
+		expect(state.chainId).toBe(SEPOLIA);
+		expect(state.balance).toBe("100.0");
+		expect(state.ensName).toBe("alice.eth");
+	});
+
+	it("maps a rejected connection to USER_REJECTED", async () => {
+		const { store, provider } = setup();
+		provider.rejectNext("eth_requestAccounts");
+
+		await expect(store.getState().connectWallet()).rejects.toMatchObject({ code: "USER_REJECTED" });
+		expect(store.getState().isConnected).toBe(false);
+		expect(store.getState().errors.connect?.code).toBe("USER_REJECTED");
+	});
+
+	it("follows account and network changes made in the wallet", async () => {
+		const { store, provider } = setup({ chains: [SEPOLIA, "0x1"] });
+		await store.getState().connectWallet();
+
+		provider.switchAccount(1);
+		await vi.waitFor(() => expect(store.getState().address).toBe(provider.accounts[0]));
+
+		provider.setChain("0x1");
+		await vi.waitFor(() => expect(store.getState().chainId).toBe("0x1"));
+
+		provider.revoke();
+		await vi.waitFor(() => expect(store.getState().isConnected).toBe(false));
+	});
+
+	it("adds the network when the wallet does not know it", async () => {
+		const { store, provider } = setup();
+		await store.getState().connectWallet();
+
+		await store.getState().switchNetwork("bsc");
+		expect(provider.requests.map(request => request.method)).toContain("wallet_addEthereumChain");
+		expect(provider.chainId).toBe("0x38");
+		expect(store.getState().chainId).toBe("0x38");
+	});
+
+	it("only gates networks when requiredChains is configured", async () => {
+		const open = setup();
+		await open.store.getState().connectWallet();
+		expect(open.store.getState().isUnsupportedChain()).toBe(false);
+
+		const gated = setup({}, { requiredChains: ["ethereum"] });
+		await gated.store.getState().connectWallet();
+		expect(gated.store.getState().isUnsupportedChain()).toBe(true);
+	});
+
+	it("switches to the default network after connecting when autoSwitchChain is set", async () => {
+		const { store, provider } = setup({ chains: [SEPOLIA, "0x1"] }, { requiredChains: ["ethereum"], autoSwitchChain: true });
+		await store.getState().connectWallet();
+
+		expect(provider.chainId).toBe("0x1");
+		expect(store.getState().chainId).toBe("0x1");
+		expect(store.getState().isUnsupportedChain()).toBe(false);
+	});
+
+	it("sends a transfer and tracks it until confirmed", async () => {
+		const { store, provider } = setup({ automine: false });
+		await store.getState().connectWallet();
+		const recipient = provider.accounts[1];
+
+		const hash = await store.getState().sendTransaction({ to: recipient, amount: "1.5" });
+		expect(store.getState().transactions[0]).toMatchObject({ hash, status: "pending", nonce: 0 });
+
+		provider.mine();
+		await vi.waitFor(() => expect(store.getState().transactions[0].status).toBe("confirmed"));
+		expect(provider.getBalance(recipient)).toBe(ethers.parseEther("101.5"));
+	});
+
+	it("marks a transaction cancelled when the wallet replaces it", async () => {
+		const { store, provider } = setup({ automine: false });
+		await store.getState().connectWallet();
+		const address = provider.accounts[0];
+
+		const hash = await store.getState().sendTransaction({ to: provider.accounts[1], amount: "1" });
+		// 用户在钱包中用相同 nonce 的 0 金额自转账取消
+		await provider.request({ method: "eth_sendTransaction", params: [{ from: address, to: address, value: "0x0", nonce: "0x0" }] });
+		provider.mine();
+
+		await vi.waitFor(() => expect(store.getState().transactions.find(tx => tx.hash === hash)?.status).toBe("cancelled"));
+	});
+
+	it("maps insufficient funds to a WalletError", async () => {
+		const { store, provider } = setup();
+		await store.getState().connectWallet();
+
+		await expect(store.getState().sendTransaction({ to: provider.accounts[1], amount: "1000" }))
+			.rejects.toMatchObject({ name: "WalletError", message: expect.stringMatching(/insufficient funds/) });
+	});
+
+	it("rejects an invalid transfer amount", async () => {
+		const { store, provider } = setup();
+		await store.getState().connectWallet();
+
+		await expect(store.getState().sendTransaction({ to: provider.accounts[1], amount: "1e-3" })).rejects.toMatchObject({ code: "INVALID_AMOUNT" });
+		expect(provider.sentTransactions).toHaveLength(0);
+	});
+
+	it("signs messages that verify against the account", async () => {
+		const { store, provider } = setup();
+		await store.getState().connectWallet();
+		const address = provider.accounts[0];
+
+		const signature = await store.getState().signMessage("hello");
+		expect(await store.getState().verifySignature({ address, message: "hello", signature })).toBe(true);
+		expect(await store.getState().verifySignature({ address: provider.accounts[1], message: "hello", signature })).toBe(false);
+	});
+
+	it("maps a rejected signature to USER_REJECTED", async () => {
+		const { store, provider } = setup();
+		await store.getState().connectWallet();
+		provider.rejectNext("personal_sign");
+
+		await expect(store.getState().signMessage("hello")).rejects.toMatchObject({ name: "WalletError", code: "USER_REJECTED" });
+	});
+
+	it("loads balances of configured tokens", async () => {
+		const { store, provider } = setup(
+			{ tokens: { [TOKEN]: { symbol: "TKN", decimals: 6, balances: { "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266": 2_500_000n } } } },
+			{ tokens: { [SEPOLIA]: [{ chainId: SEPOLIA, address: TOKEN, symbol: "TKN", name: "Token", decimals: 6 }] } },
+		);
+		await store.getState().connectWallet();
+
+		await vi.waitFor(() => expect(store.getState().tokenBalances[TOKEN]).toBe("2.5"));
+		provider.setTokenBalance(TOKEN, provider.accounts[0], 0n);
+		await store.getState().refreshTokenBalances();
+		expect(store.getState().tokenBalances[TOKEN]).toBe("0.0");
+	});
+
+	it("rejects importing an address that is not a token", async () => {
+		const { store, provider } = setup();
+		await store.getState().connectWallet();
+
+		await expect(store.getState().importToken("0x1")).rejects.toMatchObject({ code: "INVALID_ADDRESS" });
+		await expect(store.getState().importToken(provider.accounts[1])).rejects.toMatchObject({ code: "TOKEN_NOT_FOUND" });
+		expect(store.getState().importedTokens).toEqual([]);
+	});
+
+	it("emits an error event when a tracked transaction is not found", async () => {
+		const { store } = setup();
+		await store.getState().connectWallet();
+		const onError = vi.fn();
+		stops.push(store.on("error", onError));
+
+		await store.getState().addTransaction(ethers.ZeroHash);
+		expect(onError).toHaveBeenCalledWith({ error: expect.objectContaining({ name: "WalletError", code: "RPC_ERROR" }) });
+		expect(store.getState().transactions).toEqual([]);
+	});
+
+	it("clears the NFT avatar after the account no longer owns it", async () => {
+		const NFT = "0x00000000000000000000000000000000000000cc";
+		let owner = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+		const { store, provider } = setup(
+			{
+				contracts: {
+					[NFT]: {
+						abi: [
+							"function balanceOf(address owner) view returns (uint256)",
+							"function ownerOf(uint256 tokenId) view returns (address)",
+							"function tokenURI(uint256 tokenId) view returns (string)",
+						],
+						functions: {
+							balanceOf: ([account]) => String(account).toLowerCase() === owner.toLowerCase() ? 1n : 0n,
+							ownerOf: () => owner,
+							tokenURI: () => `data:application/json,{"image":"https://example.com/1.png"}`,
+						},
+					},
+				},
+			},
+			{ nfts: { collections: { [SEPOLIA]: [{ address: NFT, standard: "erc721", name: "NFT", tokenIds: ["1"] }] } } },
+		);
+		await store.getState().connectWallet();
+		const address = provider.accounts[0].toLowerCase();
+
+		const [nft] = await store.getState().fetchNfts();
+		store.getState().setNftAvatar(nft);
+		await store.getState().fetchNfts();
+		expect(store.getState().nftAvatars[address]).toMatchObject({ tokenId: "1", standard: "erc721" });
+
+		owner = provider.accounts[1];
+		expect(await store.getState().fetchNfts()).toEqual([]);
+		expect(store.getState().nftAvatars[address]).toBeUndefined();
+	});
+
+	it("resets USDT allowances to zero before setting a new one", async () => {
+		const { store, provider } = setup({
+			chainId: "0x1",
+			tokens: {
+				[USDT]: { symbol: "USDT", decimals: 6, zeroFirst: true, allowances: { "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266": { [SPENDER]: 5_000_000n } } },
+			},
+		});
+		await store.getState().connectWallet();
+		const address = provider.accounts[0];
+
+		await store.getState().setAllowance(USDT, SPENDER, "10");
+		expect(provider.sentTransactions).toHaveLength(2);
+		expect(provider.getAllowance(USDT, address, SPENDER)).toBe(10_000_000n);
+	});
+
+	it("rejects an invalid allowance amount", async () => {
+		const { store } = setup({ chainId: "0x1" });
+		await store.getState().connectWallet();
+
+		await expect(store.getState().setAllowance(USDT, SPENDER, "abc")).rejects.toMatchObject({ code: "INVALID_AMOUNT" });
+	});
+});
+
+describe("useWalletStore", () => {
+	it("starts on first use without a mounted component", async () => {
+		const provider = createMockProvider({ chainId: SEPOLIA, authorized: true });
+		stops.push(installMockProvider(provider));
+		const connected = vi.fn();
+		stops.push(useWalletStore.on("connect", connected));
+
+		// 静默重连由后台任务完成
+		await vi.waitFor(() => expect(connected).toHaveBeenCalledWith(expect.objectContaining({ address: provider.accounts[0] })));
+		expect(useWalletStore.getState().isConnected).toBe(true);
+	});
+});
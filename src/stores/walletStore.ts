@@ -1,314 +1,1778 @@
-import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { create, type Mutate, type StoreApi, type UseBoundStore } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
 import { ethers } from 'ethers';
+import { eip6963, injected, requestProviders, watchOnlyConnector, type Connector, type ProviderMessage } from '../connectors';
+import {
+	CHAINS,
+	NETWORKS,
+	findChain,
+	toAddEthereumChainParameter,
+	type AutoRefreshConfig,
+	type ChainConfig,
+	type SessionPolicy,
+	type WalletConfig,
+} from '../config';
+import { DEFAULT_TOKENS, fetchTokenBalances, fetchTokenInfo, mergeTokenLists, type TokenInfo } from '../tokens';
+import { buildTransferRequest, estimateFees, parseTransferAmount, resolveRecipient, type FeeEstimate, type SendTransactionParams } from '../transactions/send';
+import { checkTransaction, type TrackedTransaction } from '../transactions/tracker';
+import { createSiweMessage, isSessionExpired, type SiweConfig, type SiweSession } from '../auth/siwe';
+import {
+	serializeTypedData,
+	verifySignature,
+	type TypedDataDefinition,
+	type TypedDataTypes,
+	type VerifySignatureParams,
+} from '../auth/signature';
+import { createEnsResolver, isEnsName, type EnsResolver } from '../ens';
+import { chainlinkPriceSource, createPriceOracle, type PriceOracle } from '../prices';
+import { buildApproveRequest, getAllowance, requiresZeroFirst, scanApprovals, type ApprovalEntry, type ApprovalsConfig } from '../approvals';
+import { fetchNfts, ownsNft, type NftAvatar, type NftConfig, type NftItem } from '../nfts';
+import {
+	createReadCache,
+	serializeArgs,
+	type ContractAbi,
+	type ContractFunctionResult,
+	type ReadCache,
+	type ReadContractParams,
+	type ReadFunctionName,
+	type WriteContractParams,
+	type WriteFunctionName,
+} from '../contracts';
+import { createHistoryClient, type HistoryClient, type HistoryKind, type HistoryPage } from '../history';
+import { DEFAULT_LOCALE, formatAmount, translate, type MessageCatalogs, type MessageKey } from '../i18n';
+import { WalletError, toWalletError, type WalletAction } from '../errors';
+import { localStorageAdapter, type WalletStorage } from './storage';
+import { PERSIST_VERSION, migratePersistedState } from './migrations';
+import { createEventEmitter, type WalletEventEmitter } from './events';
+import { createTabSync } from './tabSync';
 
-// 网络配置
-export const NETWORKS = {
-	ethereum: {
-		chainId: "0x1",
-		chainName: "Ethereum Mainnet",
-		nativeCurrency: {
-			name: "Ether",
-			symbol: "ETH",
-			decimals: 18,
-		},
-		rpcUrls: ["https://mainnet.infura.io/v3/"],
-		blockExplorerUrls: ["https://etherscan.io/"],
-	},
-	bsc: {
-		chainId: "0x38",
-		chainName: "Binance Smart Chain",
-		nativeCurrency: {
-			name: "BNB",
-			symbol: "BNB",
-			decimals: 18,
-		},
-		rpcUrls: ["https://bsc-dataseed1.binance.org/"],
-		blockExplorerUrls: ["https://bscscan.com/"],
-	},
-	sepolia: {
-		chainId: "0xaa36a7",
-		chainName: "Sepolia Testnet",
-		nativeCurrency: {
-			name: "Sepolia Ether",
-			symbol: "ETH",
-			decimals: 18,
-		},
-		rpcUrls: [
-			"https://sepolia.gateway.tenderly.co/", 
-			"https://rpc.sepolia.org/",
-			"https://eth-sepolia.public.blastapi.io",
-			"https://sepolia.ethereum.publicnode.com"],
-		blockExplorerUrls: ["https://sepolia.etherscan.io/"],
-	},
-};
+export { NETWORKS };
+
+// 账户列表中每个账户的余额和 ENS 名称
+export interface AccountInfo {
+	balance: string | null; // 查询失败时为 null
+	ensName: string | null;
+}
 
 export interface WalletState {
-	address: string | null;
+	address: string | null; // 当前使用的账户
+	accounts: string[]; // 钱包授权的全部账户，顺序与钱包一致
+	accountInfo: Record<string, AccountInfo>; // key 为小写地址
 	chainId: string | null;
 	isConnected: boolean;
+	watchOnly: boolean; // 只读模式：查看任意地址，不能签名
 	balance: string;
 	ensName: string | null;
 	ensAvatar: string | null;
 	userDisconnected: boolean; // 用户是否主动断开连接
+	disconnectedAt: number | null; // 用户主动断开的时间，用于 rememberDisconnect
+	connectedAt: number | null; // 连接时间，用于 maxAge
+	lastActiveAt: number | null; // 最后一次用户操作的时间，用于 idleTimeout
+	connectorId: string | null; // 当前使用的连接器（EIP-6963 钱包为 rdns）
+	tokenBalances: Record<string, string>; // 当前网络的代币余额，key 为小写合约地址
+	importedTokens: TokenInfo[]; // 用户手动导入的代币
+	transactions: TrackedTransaction[]; // 已提交的交易，按提交时间倒序
+	isAuthenticated: boolean; // 是否已通过 SIWE 登录
+	session: SiweSession | null;
+	isRefreshing: boolean; // 是否正在刷新余额
+	lastUpdated: number | null; // 余额最后更新时间
+	currency: string | null; // 用户选择的显示货币，null 时使用配置的默认货币
+	prices: Record<string, number>; // 当前显示货币的价格，key 为大写代币符号，只包含原生币和内置或宿主配置的代币
+	nftAvatars: Record<string, NftAvatar>; // 用户选择的 NFT 头像，key 为小写地址
+	readsInvalidatedAt: number | null; // 合约读取缓存最后失效的时间，交易完成时更新
+	lastError: WalletError | null; // 最近一次失败
+	errors: Partial<Record<WalletAction, WalletError>>; // 各操作最近一次失败，成功后清除
 }
 
-interface WalletStore extends WalletState {
+export interface WalletStore extends WalletState {
 	// 状态更新方法
 	setWallet: (wallet: Partial<WalletState>) => void;
 	resetWallet: () => void;
 	
+	// 配置
+	chains: Record<string, ChainConfig>;
+	requiredChains: string[]; // 应用支持的网络（key 或 chainId），为空时支持 chains 中的全部网络
+	defaultChain: string | null;
+	autoSwitchChain: boolean;
+	tokenLists: Record<string, TokenInfo[]>;
+	confirmations: number;
+	pollingInterval: number;
+	siwe: SiweConfig | null;
+	autoRefresh: AutoRefreshConfig;
+	ensResolver: EnsResolver;
+	historyClient: HistoryClient;
+	priceOracle: PriceOracle;
+	approvals: ApprovalsConfig;
+	nfts: NftConfig;
+	readCache: ReadCache;
+	sessionPolicy: SessionPolicy;
+	defaultCurrency: string;
+	currencies: string[]; // 可选择的显示货币
+	locale: string;
+	messages: MessageCatalogs;
+	configure: (config: WalletConfig) => void;
+	
+	// 连接器
+	connectors: Connector[];
+	registerConnector: (connector: Connector) => void;
+	getConnector: () => Connector | undefined;
+	
 	// 连接相关
-	connectWallet: () => Promise<void>;
+	connectWallet: (connectorId?: string) => Promise<void>;
 	disconnectWallet: () => void;
 	updateWalletState: (address: string, chainId?: string) => Promise<void>; // 新增：静默更新状态
+	watchAddress: (addressOrEns: string, networkKey?: string) => Promise<void>; // 以只读模式查看地址或 ENS 名称
+
+	// 多账户
+	syncAccounts: (accounts: string[]) => Promise<void>; // 同步钱包返回的账户列表
+	switchAccount: (address: string) => Promise<void>; // 切换当前使用的账户
+	requestAccounts: () => Promise<void>; // 通过 wallet_requestPermissions 重新选择授权账户
+	refreshAccounts: () => Promise<void>; // 刷新所有账户的余额和 ENS 名称
 	
 	// 网络相关
-	switchNetwork: (networkKey: keyof typeof NETWORKS) => Promise<void>;
+	switchNetwork: (networkKey: string) => Promise<void>; // 网络 key 或 chainId
+	getSupportedChains: () => ChainConfig[];
+	getDefaultChain: () => ChainConfig | null; // 默认网络，未配置时为第一个支持的网络
+	isUnsupportedChain: () => boolean; // 已连接但当前网络不受支持，未配置 requiredChains 和 defaultChain 时始终为 false
+	switchToDefaultChain: () => Promise<void>;
 	
 	// 数据获取
 	getBalance: (address: string) => Promise<string>;
-	getENSInfo: (address: string, chainId?: string) => Promise<{ ensName: string | null; ensAvatar: string | null }>;
+	getENSInfo: (address: string, chainId?: string) => Promise<{ ensName: string | null; ensAvatar: string | null }>; // chainId 已不影响查询，保留以兼容旧调用
 	
+	// 代币相关
+	getTokens: () => TokenInfo[];
+	importToken: (address: string) => Promise<TokenInfo>;
+	removeToken: (address: string) => void;
+	refreshTokenBalances: () => Promise<void>;
+	refreshBalances: () => Promise<void>; // 刷新原生币和代币余额
+
+	// 法币估值
+	getCurrency: () => string;
+	setCurrency: (currency: string) => void;
+	refreshPrices: () => Promise<void>; // 刷新当前网络原生币和代币的价格
+	getFiatValue: (amount: string, token?: string) => number | null; // token 为代币合约地址，不传时为原生币；没有价格、测试网或用户导入的代币为 null
+	getPortfolioValue: () => number | null; // 原生币和有价格的代币合计
+	formatFiat: (value: number) => string;
+	
+	// 代币授权
+	scanApprovals: () => Promise<ApprovalEntry[]>; // 当前账户在当前网络代币上的未清零授权
+	setAllowance: (token: string, spender: string, amount: string) => Promise<string>; // amount 为 "0" 时撤销授权，返回交易哈希；需要先清零的代币会先发送一笔授权 0 的交易
+
+	// NFT
+	fetchNfts: () => Promise<NftItem[]>; // 当前账户在当前网络持有的 NFT
+	setNftAvatar: (nft: NftItem | null) => void; // 为当前账户设置或清除 NFT 头像
+	getAvatar: () => string | null; // ENS 头像优先，其次为 NFT 头像
+
+	// 合约调用
+	readContract: <TAbi extends ContractAbi, TName extends ReadFunctionName<TAbi>>(
+		params: ReadContractParams<TAbi, TName>
+	) => Promise<ContractFunctionResult<TAbi, TName>>;
+	writeContract: <TAbi extends ContractAbi, TName extends WriteFunctionName<TAbi>>(
+		params: WriteContractParams<TAbi, TName>
+	) => Promise<string>; // 返回交易哈希，交易会加入交易追踪
+	invalidateReads: () => void; // 清除合约读取缓存
+
+	// 转账相关
+	estimateTransfer: (params: SendTransactionParams) => Promise<FeeEstimate>;
+	sendTransaction: (params: SendTransactionParams) => Promise<string>; // 返回交易哈希
+	
+	// 交易追踪
+	addTransaction: (tx: ethers.TransactionResponse | string, description?: string) => Promise<void>;
+	checkTransactions: () => Promise<void>;
+	clearTransactions: () => void;
+	getRecentTransactions: () => TrackedTransaction[]; // 当前账户和网络的交易
+
+	// 交易记录
+	fetchHistory: (kind: HistoryKind, page?: number) => Promise<HistoryPage>; // 当前账户和网络的链上交易记录，page 从 1 开始
+	
+	// 签名
+	signMessage: (message: string | Uint8Array) => Promise<string>;
+	signTypedData: <TTypes extends TypedDataTypes, TPrimaryType extends keyof TTypes & string>(
+		typedData: TypedDataDefinition<TTypes, TPrimaryType>
+	) => Promise<string>;
+	verifySignature: (params: VerifySignatureParams) => Promise<boolean>;
+	
+	// SIWE 登录
+	signIn: () => Promise<SiweSession>;
+	signOut: () => Promise<void>;
+	
+	// 错误
+	clearError: (action?: WalletAction) => void; // 不指定操作时清除全部错误
+
 	// 工具方法
 	formatAddress: (address: string) => string;
 	formatBalance: (balance: string) => string;
-	getCurrentNetwork: () => typeof NETWORKS[keyof typeof NETWORKS] | null;
+	getCurrentNetwork: () => ChainConfig | null;
 	isMetaMaskInstalled: () => boolean;
+	
+	// 国际化
+	setLocale: (locale: string) => void;
+	t: (key: MessageKey, params?: Record<string, string | number>) => string;
 }
 
+// createWalletStore 的选项，除钱包配置外还包括持久化和连接器设置
+export interface WalletStoreOptions extends WalletConfig {
+	storage?: WalletStorage; // 默认 localStorage
+	storageKey?: string; // 默认 "wallet-storage"，多个实例需要使用不同的 key
+	ssr?: boolean; // 服务端渲染时设为 true，在客户端挂载后再恢复持久化状态
+	connectors?: Connector[]; // 额外的连接器
+	discoverProviders?: boolean; // 是否监听 EIP-6963 钱包广播，默认 true
+	syncTabs?: boolean; // 是否在标签页之间同步连接状态，默认 true
+}
+
+type WalletStoreHook = UseBoundStore<Mutate<StoreApi<WalletStore>, [["zustand/persist", unknown]]>>;
+
+export type WalletStoreApi = WalletStoreHook & {
+	start: () => () => void; // 启动后台任务（包括钱包事件监听），返回停止函数；服务端不执行
+	on: WalletEventEmitter["on"]; // 订阅 connect / disconnect / accountChanged / chainChanged / message，返回取消订阅函数
+};
+
 // 格式化地址
 const formatAddress = (address: string) => {
 	return `${address.slice(0, 6)}...${address.slice(-4)}`;
 };
 
-// 格式化余额
-const formatBalance = (balance: string) => {
-	const num = parseFloat(balance);
-	return num < 0.0001 ? "0" : num.toFixed(4);
-};
+// 只读模式使用的连接器 id
+const WATCH_ONLY_CONNECTOR_ID = "watchOnly";
 
-// 检查 MetaMask 是否已安装
-const isMetaMaskInstalled = () => {
-	return typeof window !== "undefined" && typeof window.ethereum !== "undefined";
+// 根据 id 查找连接器，未指定 id 时使用第一个可用的钱包连接器
+const findConnector = (connectors: Connector[], connectorId: string | null): Connector | undefined => {
+	if (connectorId) {
+		return connectors.find(connector => connector.id === connectorId);
+	}
+	return connectors.find(connector => connector.isAvailable() && connector.type !== "watchOnly");
 };
 
-// 获取当前网络信息
-const getCurrentNetwork = (chainId: string | null) => {
-	const networkKey = Object.keys(NETWORKS).find(
-		key => NETWORKS[key as keyof typeof NETWORKS].chainId === chainId
-	);
-	return networkKey ? NETWORKS[networkKey as keyof typeof NETWORKS] : null;
+// 持久化的已完成交易数量上限
+const MAX_STORED_TRANSACTIONS = 50;
+
+// 连接有效期的检查间隔和用户操作的记录间隔
+const SESSION_CHECK_INTERVAL = 15 * 1000;
+const ACTIVITY_THROTTLE = 30 * 1000;
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+const sameAddress = (a: string | null | undefined, b: string | null | undefined) =>
+	!!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+// 切换账户后只保留属于新账户的会话
+const sessionFor = (session: SiweSession | null, address: string) => {
+	const kept = session && session.address.toLowerCase() === address.toLowerCase() ? session : null;
+	return { session: kept, isAuthenticated: !!kept };
 };
 
-// 获取账户余额
-const getBalance = async (address: string): Promise<string> => {
-	try {
-		if (window.ethereum) {
-			const provider = new ethers.BrowserProvider(window.ethereum);
-			const balance = await provider.getBalance(address);
-			return ethers.formatEther(balance);
+// 创建独立的钱包 store，每个实例有自己的连接器、持久化存储和后台任务
+export const createWalletStore = (options: WalletStoreOptions = {}): WalletStoreApi => {
+	const {
+		storage = localStorageAdapter(),
+		storageKey = "wallet-storage",
+		ssr = false,
+		connectors: extraConnectors = [],
+		discoverProviders = true,
+		syncTabs = true,
+		...config
+	} = options;
+
+	// 当前激活的连接器
+	const getActiveConnector = (): Connector | undefined => {
+		const { connectors, connectorId } = store.getState();
+		return findConnector(connectors, connectorId);
+	};
+
+	// 检查是否有可用的钱包（EIP-6963 发现的钱包、window.ethereum 或宿主注册的连接器）
+	const isMetaMaskInstalled = (): boolean => {
+		return store.getState().connectors.some(connector => connector.isAvailable());
+	};
+
+	// 通过当前连接器创建 ethers provider
+	const getEthersProvider = (): ethers.BrowserProvider | null => {
+		const connector = getActiveConnector();
+		return connector ? new ethers.BrowserProvider(connector) : null;
+	};
+
+	// 准备转账交易：解析收款地址、查找代币并构造交易
+	const prepareTransfer = async (params: SendTransactionParams): Promise<{
+		provider: ethers.BrowserProvider;
+		address: string;
+		request: ethers.TransactionRequest;
+	}> => {
+		const { address, getTokens, t } = store.getState();
+		const provider = getEthersProvider();
+		if (!address || !provider) {
+			throw new WalletError("NOT_CONNECTED", t("walletNotConnected"));
 		}
-	} catch (error) {
-		console.error("获取余额失败:", error);
-	}
-	return "0";
-};
 
-// 获取 ENS 信息
-const getENSInfo = async (address: string, chainId?: string): Promise<{ ensName: string | null; ensAvatar: string | null }> => {
-	try {
-		// 使用传入的 chainId，如果都没有则尝试从 MetaMask 获取
-		let currentChainId = chainId;
-		
-		// 如果 chainId 仍然为空，尝试从 MetaMask 获取当前网络
-		if (!currentChainId && window.ethereum) {
-			try {
-				currentChainId = await window.ethereum.request({ method: "eth_chainId" });
-			} catch (error) {
-				console.error("获取当前网络失败:", error);
-			}
+		const tokenAddress = params.token?.toLowerCase();
+		const token = tokenAddress ? getTokens().find(item => item.address.toLowerCase() === tokenAddress) : undefined;
+		if (tokenAddress && !token) {
+			throw new WalletError("TOKEN_NOT_FOUND", t("tokenNotFound", { token: params.token! }));
 		}
-		
-		// 只有在以太坊主网时才查询 ENS
-		if (currentChainId === "0x1" && window.ethereum) {
-			const provider = new ethers.BrowserProvider(window.ethereum);
-			const ensName = await provider.lookupAddress(address);
-			let ensAvatar = null;
-
-			if (ensName) {
-				try {
-					const resolver = await provider.getResolver(ensName);
-					if (resolver) {
-						ensAvatar = await resolver.getAvatar();
-					}
-				} catch (error) {
-					console.log("获取 ENS 头像失败:", error);
-				}
+
+		let value: bigint;
+		try {
+			value = parseTransferAmount(params.amount, token?.decimals);
+		} catch (error) {
+			throw new WalletError("INVALID_AMOUNT", t("errorInvalidAmount"), { cause: error });
+		}
+		if (value < 0n) {
+			throw new WalletError("INVALID_AMOUNT", t("errorInvalidAmount"));
+		}
+
+		const to = await resolveRecipient(store.getState().ensResolver, params.to).catch((error) => {
+			throw toWalletError(error);
+		});
+		if (!to) {
+			throw new WalletError("INVALID_ADDRESS", t("recipientUnresolved", { recipient: params.to }));
+		}
+		const request = buildTransferRequest(address, to, value, token);
+		return { provider, address, request };
+	};
+
+	// 可以估值的代币：内置和宿主配置的代币，不包括用户导入的
+	const getPricedTokens = () => {
+		const { chainId, tokenLists } = store.getState();
+		if (!chainId) return [];
+		return mergeTokenLists(tokenLists[chainId] ?? [], DEFAULT_TOKENS[chainId] ?? []);
+	};
+
+	// 只读 provider：当前网络使用连接器，其他网络使用网络配置中的 RPC
+	const readProviders = new Map<string, ethers.JsonRpcProvider>();
+	const getReadProvider = (chainId: string): ethers.Provider | null => {
+		const { chains, chainId: currentChainId } = store.getState();
+		if (currentChainId?.toLowerCase() === chainId.toLowerCase()) {
+			const provider = getEthersProvider();
+			if (provider) return provider;
+		}
+		const chain = findChain(chains, chainId);
+		if (!chain?.rpcUrls[0]) return null;
+		const key = chain.chainId.toLowerCase();
+		if (!readProviders.has(key)) {
+			readProviders.set(key, new ethers.JsonRpcProvider(chain.rpcUrls[0], Number(chain.chainId), { staticNetwork: true }));
+		}
+		return readProviders.get(key)!;
+	};
+
+	// 预估手续费后通过当前连接器的 signer 发送交易
+	const signAndSend = async (
+		provider: ethers.BrowserProvider,
+		address: string,
+		request: ethers.TransactionRequest,
+	): Promise<ethers.TransactionResponse> => {
+		const fees = await estimateFees(provider, request);
+		const signer = await provider.getSigner(address);
+		return signer.sendTransaction({
+			...request,
+			gasLimit: fees.gasLimit,
+			maxFeePerGas: fees.maxFeePerGas ?? undefined,
+			maxPriorityFeePerGas: fees.maxPriorityFeePerGas ?? undefined,
+			gasPrice: fees.gasPrice ?? undefined,
+		});
+	};
+
+	// 是否正在检查交易状态，避免轮询重叠
+	let isCheckingTransactions = false;
+
+	// 钱包事件，disconnectError 为钱包与网络断开时的原因
+	const events = createEventEmitter();
+	let disconnectError: WalletError | null = null;
+
+	// 记录操作失败，返回归一化后的错误
+	const recordError = (action: WalletAction, error: unknown): WalletError => {
+		const walletError = toWalletError(error, action);
+		store.setState((state) => ({
+			lastError: walletError,
+			errors: { ...state.errors, [action]: walletError },
+		}));
+		return walletError;
+	};
+
+	// 后台操作失败时通过 error 事件通知宿主应用
+	const reportError = (error: unknown) => {
+		events.emit("error", { error: toWalletError(error) });
+	};
+
+	// 执行操作：成功时清除该操作的错误，失败时记录错误并抛出 WalletError
+	const track = async <T>(action: WalletAction, run: () => Promise<T>): Promise<T> => {
+		try {
+			const result = await run();
+			if (store.getState().errors[action]) {
+				store.getState().clearError(action);
 			}
+			return result;
+		} catch (error) {
+			throw recordError(action, error);
+		}
+	};
 
-			return { ensName, ensAvatar };
+	// 获取账户余额
+	const getBalance = (address: string): Promise<string> => track("getBalance", async () => {
+		const provider = getEthersProvider();
+		if (!provider) {
+			throw new WalletError("NOT_CONNECTED", store.getState().t("walletNotConnected"));
 		}
-	} catch (error) {
-		console.error("获取 ENS 信息失败:", error);
-	}
-	return { ensName: null, ensAvatar: null };
-};
+		const balance = await provider.getBalance(address);
+		return ethers.formatEther(balance);
+	});
+
+	// 获取 ENS 信息，通过主网只读 provider 查询，与当前连接的网络无关
+	const getENSInfo = (address: string): Promise<{ ensName: string | null; ensAvatar: string | null }> => track("getENSInfo", () => {
+		return store.getState().ensResolver.getProfile(address);
+	});
+
+	// 连接流程中余额和 ENS 查询失败不影响连接，错误已记录在 store 中
+	const loadAccountInfo = async (address: string) => {
+		const [balance, profile] = await Promise.all([
+			getBalance(address).catch(() => "0"),
+			getENSInfo(address).catch(() => ({ ensName: null, ensAvatar: null })),
+		]);
+		return { balance, ...profile };
+	};
+
+	// 连接器授权后加载账户信息并写入连接状态
+	const completeConnection = async (connector: Connector, accounts: string[], chainId: string) => {
+		if (accounts.length === 0) return;
+		const address = accounts[0];
+		// 先记录选择的连接器，后续的余额和 ENS 查询都走这个连接器
+		store.setState({ connectorId: connector.id, accounts, accountInfo: {} });
+		const { balance, ensName, ensAvatar } = await loadAccountInfo(address);
 
-export const useWalletStore = create<WalletStore>()(
-	persist(
-		(set, get) => ({
-			// 初始状态
-			address: null,
-			chainId: null,
-			isConnected: false,
-			balance: "0",
-			ensName: null,
-			ensAvatar: null,
-			userDisconnected: false,
-
-			// 状态更新方法
-			setWallet: (wallet) => set((state) => ({ ...state, ...wallet })),
-			resetWallet: () => set({
+		store.setState({
+			address,
+			chainId,
+			isConnected: true,
+			connectedAt: store.getState().connectedAt ?? Date.now(),
+			lastActiveAt: Date.now(),
+			watchOnly: connector.type === "watchOnly",
+			balance,
+			ensName,
+			ensAvatar,
+			userDisconnected: false, // 重置用户断开连接状态
+			lastUpdated: Date.now(),
+			...sessionFor(store.getState().session, address),
+		});
+		void store.getState().refreshTokenBalances();
+	};
+
+	// 只读模式下提前拒绝签名，避免请求宿主的 nonce 等副作用
+	const assertCanSign = () => {
+		if (store.getState().watchOnly) {
+			throw new WalletError("READ_ONLY", store.getState().t("watchOnlyCannotSign"));
+		}
+	};
+
+	const store: WalletStoreHook = create<WalletStore>()(
+		persist(
+			(set, get) => ({
+				// 初始状态
 				address: null,
+				accounts: [],
+				accountInfo: {},
 				chainId: null,
 				isConnected: false,
+				watchOnly: false,
 				balance: "0",
 				ensName: null,
 				ensAvatar: null,
 				userDisconnected: false,
-			}),
+				connectorId: null,
+				connectors: [injected(), ...extraConnectors],
+				chains: NETWORKS,
+				requiredChains: [],
+				defaultChain: null,
+				autoSwitchChain: false,
+				tokenLists: {},
+				tokenBalances: {},
+				importedTokens: [],
+				transactions: [],
+				isAuthenticated: false,
+				session: null,
+				siwe: null,
+				isRefreshing: false,
+				lastUpdated: null,
+				lastError: null,
+				errors: {},
+				autoRefresh: { mode: "block" },
+				ensResolver: createEnsResolver(CHAINS.ethereum.rpcUrls[0]),
+				historyClient: createHistoryClient(),
+				priceOracle: createPriceOracle([chainlinkPriceSource()]),
+				approvals: {},
+				nfts: {},
+				nftAvatars: {},
+				readCache: createReadCache(),
+				sessionPolicy: {},
+				disconnectedAt: null,
+				connectedAt: null,
+				lastActiveAt: null,
+				readsInvalidatedAt: null,
+				defaultCurrency: "USD",
+				currencies: ["USD", "EUR"],
+				currency: null,
+				prices: {},
+				locale: DEFAULT_LOCALE,
+				messages: {},
+				confirmations: 1,
+				pollingInterval: 4000,
 
-			// 连接钱包 - 会触发弹窗
-			connectWallet: async () => {
-				if (!isMetaMaskInstalled()) {
-					alert("请安装 MetaMask 钱包！");
-					return;
-				}
+				// 状态更新方法
+				setWallet: (wallet) => set((state) => ({ ...state, ...wallet })),
+				resetWallet: () => set({
+					address: null,
+					accounts: [],
+					accountInfo: {},
+					chainId: null,
+					isConnected: false,
+					watchOnly: false,
+					balance: "0",
+					ensName: null,
+					ensAvatar: null,
+					userDisconnected: false,
+					disconnectedAt: null,
+					connectedAt: null,
+					lastActiveAt: null,
+					connectorId: null,
+					tokenBalances: {},
+					isAuthenticated: false,
+					session: null,
+					lastUpdated: null,
+					lastError: null,
+					errors: {},
+				}),
 
-				try {
-					const accounts = await window.ethereum!.request({
-						method: "eth_requestAccounts",
-					});
+				// 应用宿主配置
+				configure: (config) => set((state) => ({
+					chains: config.chains ?? state.chains,
+					requiredChains: config.requiredChains ?? state.requiredChains,
+					defaultChain: config.defaultChain ?? state.defaultChain,
+					autoSwitchChain: config.autoSwitchChain ?? state.autoSwitchChain,
+					ensResolver: config.ens || config.chains
+						? createEnsResolver(
+							config.ens?.rpcUrl ?? findChain(config.chains ?? state.chains, "0x1")?.rpcUrls[0] ?? CHAINS.ethereum.rpcUrls[0],
+							config.ens?.cacheTtl,
+						)
+						: state.ensResolver,
+					historyClient: config.history ? createHistoryClient(config.history) : state.historyClient,
+					priceOracle: config.prices?.sources || config.prices?.cacheTtl
+						? createPriceOracle(config.prices.sources ?? [chainlinkPriceSource()], config.prices.cacheTtl)
+						: state.priceOracle,
+					approvals: config.approvals ?? state.approvals,
+					nfts: config.nfts ?? state.nfts,
+					readCache: config.contracts ? createReadCache(config.contracts.cacheTtl) : state.readCache,
+					sessionPolicy: config.sessionPolicy ?? state.sessionPolicy,
+					defaultCurrency: config.prices?.currency?.toUpperCase() ?? state.defaultCurrency,
+					currencies: config.prices?.currencies?.map(currency => currency.toUpperCase()) ?? state.currencies,
+					tokenLists: config.tokens ?? state.tokenLists,
+					confirmations: config.confirmations ?? state.confirmations,
+					pollingInterval: config.pollingInterval ?? state.pollingInterval,
+					siwe: config.siwe ?? state.siwe,
+					autoRefresh: config.autoRefresh ?? state.autoRefresh,
+					locale: config.locale ?? state.locale,
+					messages: config.messages ?? state.messages,
+				})),
 
-					if (accounts.length > 0) {
-						const address = accounts[0];
-						const chainId = await window.ethereum!.request({ method: "eth_chainId" });
-						const balance = await getBalance(address);
-						const { ensName, ensAvatar } = await getENSInfo(address, chainId);
+				// 注册连接器，相同 id 的连接器会被替换
+				registerConnector: (connector) => set((state) => ({
+					connectors: [
+						...state.connectors.filter(item => item.id !== connector.id),
+						connector,
+					],
+				})),
+				getConnector: () => findConnector(get().connectors, get().connectorId),
+
+				// 连接钱包 - 会触发弹窗
+				connectWallet: (connectorId) => track("connect", async () => {
+					const connector = findConnector(get().connectors, connectorId ?? null);
+					if (!connector || !connector.isAvailable()) {
+						throw new WalletError("NO_WALLET", get().t("installWallet"));
+					}
+
+					const { accounts, chainId } = await connector.connect();
+					await completeConnection(connector, accounts, chainId);
+
+					// 连接后自动切换到默认网络；用户拒绝时保持连接，由界面提示切换
+					if (get().autoSwitchChain && get().isUnsupportedChain()) {
+						await get().switchToDefaultChain().catch(() => {});
+					}
+				}),
+
+				// 只读模式：地址或 ENS 名称的余额、代币和交易通过网络配置中的公共 RPC 查询
+				watchAddress: (input, networkKey) => track("watch", async () => {
+					const value = input.trim();
+					const address = ethers.isAddress(value)
+						? ethers.getAddress(value)
+						: isEnsName(value) ? await get().ensResolver.resolveName(value) : null;
+					if (!address) {
+						throw new WalletError("INVALID_ADDRESS", get().t("invalidAddress"));
+					}
+
+					const { chains, chainId } = get();
+					const network = findChain(chains, networkKey ?? chainId) ?? get().getDefaultChain();
+					if (!network) {
+						throw new WalletError("CHAIN_NOT_CONFIGURED", get().t("errorChainNotConfigured"));
+					}
+
+					if (get().isConnected) {
+						get().disconnectWallet();
+					}
+					const connector = watchOnlyConnector({ address, chains, chainId: network.chainId, id: WATCH_ONLY_CONNECTOR_ID });
+					get().registerConnector(connector);
+					const connection = await connector.connect();
+					await completeConnection(connector, connection.accounts, connection.chainId);
+				}),
+
+				// 静默更新钱包状态 - 不会触发弹窗
+				updateWalletState: async (address: string, newChainId?: string) => {
+					// 账户切换时立即清除旧账户的登录会话
+					set(sessionFor(get().session, address));
+
+					try {
+						// 如果没有提供新的chainId，则获取当前的
+						const chainId = newChainId || await get().getConnector()!.getChainId();
+						const { balance, ensName, ensAvatar } = await loadAccountInfo(address);
 
 						set({
 							address,
 							chainId,
 							isConnected: true,
+							connectedAt: get().connectedAt ?? Date.now(),
 							balance,
 							ensName,
 							ensAvatar,
-							userDisconnected: false, // 重置用户断开连接状态
+							userDisconnected: false,
+							lastUpdated: Date.now(),
 						});
+						void get().refreshTokenBalances();
+					} catch (error) {
+						// 静默更新不抛出，只记录错误
+						recordError("updateWalletState", error);
 					}
-				} catch (error) {
-					console.error("连接钱包失败:", error);
-				}
-			},
+				},
 
-			// 静默更新钱包状态 - 不会触发弹窗
-			updateWalletState: async (address: string, newChainId?: string) => {
-				try {
-					// 如果没有提供新的chainId，则获取当前的
-					const chainId = newChainId || await window.ethereum!.request({ method: "eth_chainId" });
-					const balance = await getBalance(address);
-					const { ensName, ensAvatar } = await getENSInfo(address, chainId);
+				// 钱包账户列表变化：首个账户变化说明用户在钱包中切换了账户，跟随钱包；
+				// 否则在仍有权限时保留应用内选择的账户
+				syncAccounts: async (accounts) => {
+					if (accounts.length === 0) {
+						// 账户被断开连接
+						get().disconnectWallet();
+						return;
+					}
 
-					set({
-						address,
-						chainId,
-						isConnected: true,
-						balance,
-						ensName,
-						ensAvatar,
-						userDisconnected: false,
+					const { address, accounts: previous } = get();
+					set({ accounts });
+					const walletSwitched = !sameAddress(accounts[0], previous[0]);
+					const keep = !walletSwitched && accounts.some(account => sameAddress(account, address));
+					const next = keep ? address! : accounts[0];
+					if (!sameAddress(next, address)) {
+						// 账户切换，只更新状态，不重新连接（避免弹窗）
+						await get().updateWalletState(next);
+					}
+				},
+
+				// 切换到已授权的另一个账户，签名和交易都会使用该账户
+				switchAccount: async (address) => {
+					const account = get().accounts.find(item => sameAddress(item, address));
+					if (!account || sameAddress(account, get().address)) return;
+					await get().updateWalletState(account);
+				},
+
+				// 请求钱包重新授权账户，用户可以在钱包中勾选更多账户
+				requestAccounts: () => track("requestAccounts", async () => {
+					const connector = get().getConnector();
+					if (!connector || !get().isConnected) {
+						throw new WalletError("NOT_CONNECTED", get().t("walletNotConnected"));
+					}
+
+					await connector.request({
+						method: "wallet_requestPermissions",
+						params: [{ eth_accounts: {} }],
 					});
-				} catch (error) {
-					console.error("更新钱包状态失败:", error);
-				}
-			},
+					await get().syncAccounts(await connector.getAccounts());
+					await get().refreshAccounts();
+				}),
 
-			// 断开连接
-			disconnectWallet: () => {
-				set({
-					address: null,
-					chainId: null,
-					isConnected: false,
-					balance: "0",
-					ensName: null,
-					ensAvatar: null,
-					userDisconnected: true, // 标记用户主动断开连接
-				});
-			},
+				// 刷新账户列表的余额（当前网络）和 ENS 名称，单个账户失败不影响其它账户
+				refreshAccounts: async () => {
+					const { accounts, chainId, ensResolver } = get();
+					const provider = getEthersProvider();
+					if (!provider || accounts.length === 0) return;
 
-			// 切换网络
-			switchNetwork: async (networkKey) => {
-				if (!window.ethereum) return;
+					const entries = await Promise.all(accounts.map(async (account) => {
+						const [balance, ensName] = await Promise.all([
+							provider.getBalance(account).then(value => ethers.formatEther(value)).catch(() => null),
+							ensResolver.lookupAddress(account).catch(() => null),
+						]);
+						return [account.toLowerCase(), { balance, ensName }] as const;
+					}));
+					// 查询期间网络已变化时丢弃结果
+					if (get().chainId === chainId) {
+						set({ accountInfo: Object.fromEntries(entries) });
+					}
+				},
 
-				const network = NETWORKS[networkKey];
-				
-				try {
-					await window.ethereum.request({
-						method: "wallet_switchEthereumChain",
-						params: [{ chainId: network.chainId }],
+				// 断开连接
+				disconnectWallet: () => {
+					get().getConnector()?.disconnect().catch(reportError);
+					// 退出只读模式时移除只读连接器
+					if (get().watchOnly) {
+						set((state) => ({
+							connectors: state.connectors.filter(connector => connector.id !== WATCH_ONLY_CONNECTOR_ID),
+							connectorId: null,
+						}));
+					}
+					set({
+						address: null,
+						accounts: [],
+						accountInfo: {},
+						chainId: null,
+						isConnected: false,
+						watchOnly: false,
+						balance: "0",
+						ensName: null,
+						ensAvatar: null,
+						userDisconnected: true, // 标记用户主动断开连接
+						disconnectedAt: Date.now(),
+						connectedAt: null,
+						lastActiveAt: null,
+						tokenBalances: {},
+						isAuthenticated: false,
+						session: null,
+						lastUpdated: null,
+						lastError: null,
+						errors: {},
 					});
-					
+				},
+
+				// 切换网络，钱包中没有该网络时先添加
+				switchNetwork: (networkKey) => track("switchNetwork", async () => {
+					const connector = get().getConnector();
+					if (!connector) {
+						throw new WalletError("NOT_CONNECTED", get().t("walletNotConnected"));
+					}
+
+					const network = findChain(get().chains, networkKey);
+					if (!network) {
+						throw new WalletError("CHAIN_NOT_CONFIGURED", `${get().t("errorChainNotConfigured")}: ${networkKey}`);
+					}
+
+					try {
+						await connector.request({
+							method: "wallet_switchEthereumChain",
+							params: [{ chainId: network.chainId }],
+						});
+					} catch (error) {
+						if (toWalletError(error).code !== "UNRECOGNIZED_CHAIN") throw error;
+						// 添加网络后钱包通常会同时切换过去
+						await connector.request({
+							method: "wallet_addEthereumChain",
+							params: [toAddEthereumChainParameter(network)],
+						});
+					}
+
 					// 网络切换成功后，静默更新钱包状态
 					const { address } = get();
 					if (address) {
 						await get().updateWalletState(address, network.chainId);
 					}
-				} catch (error: any) {
-					// 如果网络不存在，则添加网络
-					if (error.code === 4902) {
-						try {
-							await window.ethereum.request({
-								method: "wallet_addEthereumChain",
-								params: [network],
+				}),
+
+				// 应用支持的网络，requiredChains 中未配置的网络会被忽略
+				getSupportedChains: () => {
+					const { chains, requiredChains } = get();
+					if (requiredChains.length === 0) return Object.values(chains);
+					return requiredChains
+						.map(keyOrChainId => findChain(chains, keyOrChainId))
+						.filter((chain): chain is ChainConfig => !!chain);
+				},
+				getDefaultChain: () => {
+					const supported = get().getSupportedChains();
+					const preferred = findChain(get().chains, get().defaultChain);
+					return preferred && supported.includes(preferred) ? preferred : supported[0] ?? null;
+				},
+				// 只有宿主配置了 requiredChains 或 defaultChain 时才限制网络
+				isUnsupportedChain: () => {
+					const { isConnected, chainId, requiredChains, defaultChain } = get();
+					if (!isConnected || !chainId) return false;
+					if (requiredChains.length === 0 && !defaultChain) return false;
+					return !get().getSupportedChains().some(chain => chain.chainId.toLowerCase() === chainId.toLowerCase());
+				},
+				switchToDefaultChain: async () => {
+					const network = get().getDefaultChain();
+					if (!network) {
+						throw recordError("switchNetwork", new WalletError("CHAIN_NOT_CONFIGURED", get().t("errorChainNotConfigured")));
+					}
+					await get().switchNetwork(network.chainId);
+				},
+
+				// 数据获取方法
+				getBalance,
+				getENSInfo,
+
+				// 当前网络的代币列表：宿主配置 + 内置默认 + 用户导入
+				getTokens: () => {
+					const { chainId, tokenLists, importedTokens } = get();
+					if (!chainId) return [];
+					return mergeTokenLists(
+						tokenLists[chainId] ?? [],
+						DEFAULT_TOKENS[chainId] ?? [],
+						importedTokens.filter(token => token.chainId === chainId),
+					);
+				},
+
+				// 按合约地址导入代币，symbol 和 decimals 从链上读取
+				importToken: async (tokenAddress) => {
+					const { chainId, t } = get();
+					const provider = getEthersProvider();
+					if (!chainId || !provider) {
+						throw new WalletError("NOT_CONNECTED", t("walletNotConnected"));
+					}
+					if (!ethers.isAddress(tokenAddress)) {
+						throw new WalletError("INVALID_ADDRESS", t("invalidAddress"));
+					}
+
+					let token: TokenInfo;
+					try {
+						token = await fetchTokenInfo(provider, chainId, tokenAddress);
+					} catch (error) {
+						const walletError = toWalletError(error);
+						// 不是 ERC-20 合约时调用会失败，节点错误保留原错误码
+						throw walletError.code === "UNKNOWN"
+							? new WalletError("TOKEN_NOT_FOUND", t("importTokenFailed"), { cause: error })
+							: walletError;
+					}
+					set((state) => ({
+						importedTokens: mergeTokenLists(state.importedTokens, [token]),
+					}));
+					await get().refreshTokenBalances();
+					return token;
+				},
+
+				// 移除用户导入的代币（内置和宿主配置的代币不能移除）
+				removeToken: (tokenAddress) => {
+					const { chainId } = get();
+					const target = tokenAddress.toLowerCase();
+					set((state) => {
+						const tokenBalances = { ...state.tokenBalances };
+						delete tokenBalances[target];
+						return {
+							importedTokens: state.importedTokens.filter(
+								token => token.chainId !== chainId || token.address.toLowerCase() !== target
+							),
+							tokenBalances,
+						};
+					});
+				},
+
+				// 刷新当前网络的代币余额
+				refreshTokenBalances: async () => {
+					const { address, chainId } = get();
+					const provider = getEthersProvider();
+					if (!address || !provider) return;
+
+					const tokenBalances = await fetchTokenBalances(provider, address, get().getTokens());
+					// 查询期间账户或网络已变化时丢弃结果
+					if (get().address === address && get().chainId === chainId) {
+						set({ tokenBalances });
+						void get().refreshPrices();
+					}
+				},
+
+				// 刷新原生币和代币余额，已在刷新时跳过
+				refreshBalances: async () => {
+					const { address, chainId, isRefreshing } = get();
+					if (!address || isRefreshing) return;
+
+					set({ isRefreshing: true });
+					try {
+						// 查询失败时保留原余额，错误已记录在 errors.getBalance
+						const [balance] = await Promise.all([
+							getBalance(address).catch(() => null),
+							get().refreshTokenBalances(),
+						]);
+						if (balance !== null && get().address === address && get().chainId === chainId) {
+							set({ balance, lastUpdated: Date.now() });
+						}
+					} finally {
+						set({ isRefreshing: false });
+					}
+				},
+
+				getCurrency: () => get().currency ?? get().defaultCurrency,
+
+				// 切换显示货币并重新查询价格
+				setCurrency: (currency) => {
+					set({ currency: currency.toUpperCase(), prices: {} });
+					void get().refreshPrices();
+				},
+
+				// 查询价格失败时保留原价格
+				refreshPrices: async () => {
+					const network = get().getCurrentNetwork();
+					if (!network || network.testnet) return;
+
+					const currency = get().getCurrency();
+					const symbols = [network.nativeCurrency.symbol, ...getPricedTokens().map(token => token.symbol)];
+					const prices = await get().priceOracle.getPrices(symbols, currency);
+					if (get().getCurrency() === currency) {
+						set((state) => ({ prices: { ...state.prices, ...prices } }));
+					}
+				},
+
+				// 价格按符号查询，用户导入的代币可能冒用符号，只对内置和宿主配置的代币估值
+				getFiatValue: (amount, token) => {
+					const network = get().getCurrentNetwork();
+					const symbol = token
+						? getPricedTokens().find(item => item.address.toLowerCase() === token.toLowerCase())?.symbol
+						: network?.nativeCurrency.symbol;
+					if (!symbol) return null;
+					const price = get().prices[symbol.toUpperCase()];
+					const value = parseFloat(amount);
+					if (price === undefined || !Number.isFinite(value) || get().getCurrentNetwork()?.testnet) return null;
+					return value * price;
+				},
+
+				getPortfolioValue: () => {
+					const { balance, tokenBalances, getFiatValue } = get();
+					const network = get().getCurrentNetwork();
+					if (!network) return null;
+
+					const values = [
+						getFiatValue(balance),
+						...getPricedTokens().map(token => getFiatValue(tokenBalances[token.address.toLowerCase()] ?? "0", token.address)),
+					].filter((value): value is number => value !== null);
+					return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+				},
+
+				// 货币代码无效时退回为数字加代码
+				formatFiat: (value) => {
+					const currency = get().getCurrency();
+					try {
+						return new Intl.NumberFormat(get().locale, { style: "currency", currency }).format(value);
+					} catch {
+						return `${value.toFixed(2)} ${currency}`;
+					}
+				},
+
+				// 扫描授权，失败时抛出 WalletError，不写入 errors
+				scanApprovals: async () => {
+					const { address, chainId, approvals, getTokens, t } = get();
+					const provider = getEthersProvider();
+					if (!address || !chainId || !provider) {
+						throw new WalletError("NOT_CONNECTED", t("walletNotConnected"));
+					}
+					try {
+						return await scanApprovals(provider, address, getTokens(), { ...approvals, chainId });
+					} catch (error) {
+						throw toWalletError(error);
+					}
+				},
+
+				// 修改授权额度，与转账使用同一个 signer；
+				// USDT 等代币不允许在非 0 额度之间直接修改，先授权 0 并等待上链
+				setAllowance: async (tokenAddress, spender, amount) => {
+					assertCanSign();
+					const { address, chainId, approvals, getTokens, formatAddress, t } = get();
+					const provider = getEthersProvider();
+					if (!address || !chainId || !provider) {
+						throw new WalletError("NOT_CONNECTED", t("walletNotConnected"));
+					}
+					const token = getTokens().find(item => item.address.toLowerCase() === tokenAddress.toLowerCase());
+					if (!token) {
+						throw new WalletError("TOKEN_NOT_FOUND", t("tokenNotFound", { token: tokenAddress }));
+					}
+
+					let value: bigint;
+					try {
+						value = ethers.parseUnits(amount, token.decimals);
+					} catch (error) {
+						throw new WalletError("INVALID_AMOUNT", t("errorInvalidAmount"), { cause: error });
+					}
+
+					const revokeDescription = t("revokeDescription", { symbol: token.symbol, spender: formatAddress(spender) });
+					let tx: ethers.TransactionResponse;
+					try {
+						if (value > 0n && requiresZeroFirst(chainId, token.address, approvals)
+							&& await getAllowance(provider, token, address, spender) > 0n) {
+							const reset = await signAndSend(provider, address, buildApproveRequest(address, token, spender, 0n));
+							await get().addTransaction(reset, revokeDescription);
+							await reset.wait();
+						}
+						tx = await signAndSend(provider, address, buildApproveRequest(address, token, spender, value));
+					} catch (error) {
+						throw toWalletError(error);
+					}
+					await get().addTransaction(tx, value === 0n
+						? revokeDescription
+						: t("approveDescription", { amount, symbol: token.symbol, spender: formatAddress(spender) }));
+					return tx.hash;
+				},
+
+				// 查询 NFT，失败时抛出 WalletError，不写入 errors
+				fetchNfts: async () => {
+					const { address, nfts, t } = get();
+					const network = get().getCurrentNetwork();
+					const provider = getEthersProvider();
+					if (!address || !network || !provider) {
+						throw new WalletError("NOT_CONNECTED", t("walletNotConnected"));
+					}
+					let items: NftItem[];
+					try {
+						items = await fetchNfts(provider, network, address, nfts);
+					} catch (error) {
+						throw toWalletError(error);
+					}
+
+					// 刷新时重新确认头像 NFT 仍归当前账户所有，已转出或销毁时清除头像
+					const avatar = get().nftAvatars[address.toLowerCase()];
+					if (avatar?.chainId === network.chainId) {
+						// 节点错误时无法确认，保留头像
+						const owned = await ownsNft(provider, address, avatar).catch(() => true);
+						if (!owned && get().nftAvatars[address.toLowerCase()] === avatar) {
+							set((state) => {
+								const nftAvatars = { ...state.nftAvatars };
+								delete nftAvatars[address.toLowerCase()];
+								return { nftAvatars };
 							});
-							
-							// 添加网络成功后，静默更新状态
-							const { address } = get();
-							if (address) {
-								await get().updateWalletState(address, network.chainId);
+						}
+					}
+					return items;
+				},
+
+				setNftAvatar: (nft) => {
+					const { address } = get();
+					if (!address) return;
+					set((state) => {
+						const nftAvatars = { ...state.nftAvatars };
+						if (nft?.image) {
+							nftAvatars[address.toLowerCase()] = {
+								chainId: nft.chainId,
+								contract: nft.contract,
+								tokenId: nft.tokenId,
+								standard: nft.standard,
+								image: nft.image,
+							};
+						} else {
+							delete nftAvatars[address.toLowerCase()];
+						}
+						return { nftAvatars };
+					});
+				},
+
+				getAvatar: () => {
+					const { address, ensAvatar, nftAvatars } = get();
+					return ensAvatar ?? (address ? nftAvatars[address.toLowerCase()]?.image ?? null : null);
+				},
+
+				// 读取合约，结果按网络、合约、函数和参数缓存，相同的并发请求合并
+				readContract: async <TAbi extends ContractAbi, TName extends ReadFunctionName<TAbi>>(
+					params: ReadContractParams<TAbi, TName>
+				) => {
+					const chainId = params.chainId ?? get().chainId;
+					const provider = chainId ? getReadProvider(chainId) : null;
+					if (!chainId || !provider) {
+						throw new WalletError("CHAIN_NOT_CONFIGURED", get().t("errorChainNotConfigured"));
+					}
+					const args = (params.args ?? []) as readonly unknown[];
+					const key = `${chainId}:${params.address.toLowerCase()}:${params.functionName}:${serializeArgs(args)}`;
+					try {
+						return await get().readCache.get(key, async () => {
+							const contract = new ethers.Contract(params.address, params.abi as ethers.InterfaceAbi, provider);
+							return contract.getFunction(params.functionName)(...args) as Promise<ContractFunctionResult<TAbi, TName>>;
+						}, params.force);
+					} catch (error) {
+						throw toWalletError(error);
+					}
+				},
+
+				// 调用会修改状态的合约函数，与转账使用同一个 signer
+				writeContract: async (params) => {
+					assertCanSign();
+					if (params.chainId && params.chainId.toLowerCase() !== get().chainId?.toLowerCase()) {
+						await get().switchNetwork(params.chainId);
+					}
+					const { address, t } = get();
+					const provider = getEthersProvider();
+					if (!address || !provider) {
+						throw new WalletError("NOT_CONNECTED", t("walletNotConnected"));
+					}
+
+					try {
+						const iface = new ethers.Interface(params.abi as ethers.InterfaceAbi);
+						const tx = await signAndSend(provider, address, {
+							from: address,
+							to: params.address,
+							data: iface.encodeFunctionData(params.functionName, (params.args ?? []) as readonly unknown[]),
+							value: params.value,
+						});
+						await get().addTransaction(tx, params.description ?? params.functionName);
+						return tx.hash;
+					} catch (error) {
+						throw toWalletError(error);
+					}
+				},
+
+				invalidateReads: () => {
+					get().readCache.clear();
+					set({ readsInvalidatedAt: Date.now() });
+				},
+
+				// 预估转账手续费
+				estimateTransfer: async (params) => {
+					const { provider, request } = await prepareTransfer(params);
+					try {
+						return await estimateFees(provider, request);
+					} catch (error) {
+						throw toWalletError(error);
+					}
+				},
+
+				// 发送原生币或 ERC-20 转账，通过当前连接器签名
+				sendTransaction: async (params) => {
+					assertCanSign();
+					const { provider, address, request } = await prepareTransfer(params);
+					let tx: ethers.TransactionResponse;
+					try {
+						tx = await signAndSend(provider, address, request);
+					} catch (error) {
+						throw toWalletError(error);
+					}
+
+					const symbol = params.token
+						? get().getTokens().find(token => token.address.toLowerCase() === params.token!.toLowerCase())?.symbol
+						: get().getCurrentNetwork()?.nativeCurrency.symbol;
+					await get().addTransaction(tx, `${params.amount} ${symbol ?? ""} → ${params.to}`);
+					return tx.hash;
+				},
+
+				// 记录一笔已提交的交易，之后会轮询回执直到确认、失败或被替换
+				addTransaction: async (txOrHash, description) => {
+					const provider = getEthersProvider();
+					const { chainId } = get();
+					if (!provider || !chainId) return;
+
+					try {
+						const tx = typeof txOrHash === "string" ? await provider.getTransaction(txOrHash) : txOrHash;
+						if (!tx) {
+							reportError(new WalletError("RPC_ERROR", get().t("transactionNotFound")));
+							return;
+						}
+
+						const now = Date.now();
+						const tracked: TrackedTransaction = {
+							hash: tx.hash,
+							chainId,
+							from: tx.from,
+							nonce: tx.nonce,
+							to: tx.to,
+							value: tx.value.toString(),
+							description,
+							status: "pending",
+							confirmations: 0,
+							startBlock: await provider.getBlockNumber(),
+							submittedAt: now,
+							updatedAt: now,
+						};
+						set((state) => ({
+							transactions: [tracked, ...state.transactions.filter(item => item.hash !== tracked.hash)],
+						}));
+					} catch (error) {
+						reportError(error);
+					}
+				},
+
+				// 检查当前网络上所有待确认交易的状态
+				checkTransactions: async () => {
+					const { chainId, transactions, confirmations } = get();
+					const provider = getEthersProvider();
+					if (!provider || !chainId || isCheckingTransactions) return;
+
+					const pending = transactions.filter(tx => tx.status === "pending" && tx.chainId === chainId);
+					if (pending.length === 0) return;
+
+					isCheckingTransactions = true;
+					try {
+						const updates = new Map<string, Partial<TrackedTransaction>>();
+						await Promise.all(pending.map(async (tx) => {
+							try {
+								const update = await checkTransaction(provider, tx, confirmations);
+								if (update) updates.set(tx.hash, update);
+							} catch (error) {
+								reportError(error);
 							}
-						} catch (addError) {
-							console.error("添加网络失败:", addError);
+						}));
+
+						if (updates.size > 0) {
+							set((state) => ({
+								transactions: state.transactions.map(tx => updates.has(tx.hash) ? { ...tx, ...updates.get(tx.hash) } : tx),
+							}));
+						}
+
+						// 有交易完成时立即刷新余额，合约状态可能已变化，读取缓存失效
+						const settled = [...updates.values()].some(update => update.status && update.status !== "pending");
+						if (settled) {
+							get().invalidateReads();
+							void get().refreshBalances();
 						}
-					} else {
-						console.error("切换网络失败:", error);
+					} finally {
+						isCheckingTransactions = false;
 					}
-				}
-			},
-
-			// 数据获取方法
-			getBalance,
-			getENSInfo,
-
-			// 工具方法
-			formatAddress,
-			formatBalance,
-			getCurrentNetwork: () => getCurrentNetwork(get().chainId),
-			isMetaMaskInstalled,
-		}),
-		{
-			name: 'wallet-storage', // localStorage 的 key
-			partialize: (state) => ({
-				// 只持久化连接状态的数据
-				address: state.isConnected ? state.address : null,
-				chainId: state.isConnected ? state.chainId : null,
-				isConnected: state.isConnected,
-				balance: state.isConnected ? state.balance : "0",
-				ensName: state.isConnected ? state.ensName : null,
-				ensAvatar: state.isConnected ? state.ensAvatar : null,
-				userDisconnected: state.userDisconnected, // 持久化用户断开连接状态
+				},
+
+				// 清除已完成的交易记录，待确认的交易保留
+				clearTransactions: () => set((state) => ({
+					transactions: state.transactions.filter(tx => tx.status === "pending"),
+				})),
+
+				getRecentTransactions: () => {
+					const { address, chainId, transactions } = get();
+					if (!address || !chainId) return [];
+					return transactions.filter(
+						tx => tx.chainId === chainId && tx.from.toLowerCase() === address.toLowerCase()
+					);
+				},
+
+				// 通过区块浏览器 API 查询交易记录，失败时抛出 WalletError，不写入 errors
+				fetchHistory: async (kind, page = 1) => {
+					const { address, historyClient, t } = get();
+					const network = get().getCurrentNetwork();
+					if (!address) {
+						throw new WalletError("NOT_CONNECTED", t("walletNotConnected"));
+					}
+					if (!network) {
+						throw new WalletError("CHAIN_NOT_CONFIGURED", t("errorChainNotConfigured"));
+					}
+					return historyClient.getPage(network, address, kind, page);
+				},
+
+				// personal_sign 签名，字符串按 UTF-8 编码
+				signMessage: async (message) => {
+					assertCanSign();
+					const { address } = get();
+					const connector = get().getConnector();
+					if (!address || !connector) {
+						throw new WalletError("NOT_CONNECTED", get().t("walletNotConnected"));
+					}
+
+					const data = typeof message === "string" ? ethers.toUtf8Bytes(message) : message;
+					try {
+						return await connector.request<string>({
+							method: "personal_sign",
+							params: [ethers.hexlify(data), address],
+						});
+					} catch (error) {
+						throw toWalletError(error);
+					}
+				},
+
+				// eth_signTypedData_v4 签名
+				signTypedData: async (typedData) => {
+					assertCanSign();
+					const { address } = get();
+					const connector = get().getConnector();
+					if (!address || !connector) {
+						throw new WalletError("NOT_CONNECTED", get().t("walletNotConnected"));
+					}
+
+					try {
+						return await connector.request<string>({
+							method: "eth_signTypedData_v4",
+							params: [address, serializeTypedData(typedData)],
+						});
+					} catch (error) {
+						throw toWalletError(error);
+					}
+				},
+
+				// 校验签名，合约钱包需要连接到对应网络才能走 EIP-1271
+				verifySignature: (params) => verifySignature(getEthersProvider(), params),
+
+				// 使用 EIP-4361 消息登录，签名交给宿主的 verify 回调校验
+				signIn: async () => {
+					const { address, chainId, siwe } = get();
+					if (!siwe) {
+						throw new WalletError("SIWE_NOT_CONFIGURED", get().t("siweNotConfigured"));
+					}
+					assertCanSign();
+					if (!address || !chainId) {
+						throw new WalletError("NOT_CONNECTED", get().t("walletNotConnected"));
+					}
+
+					const checksumAddress = ethers.getAddress(address);
+					const numericChainId = Number(BigInt(chainId));
+					const now = new Date();
+					const expiresAt = siwe.expiresIn ? new Date(now.getTime() + siwe.expiresIn).toISOString() : null;
+
+					// 宿主的 getNonce / verify 回调抛出的错误同样归一化为 WalletError
+					let message: string;
+					let signature: string;
+					let verified: boolean;
+					try {
+						message = createSiweMessage({
+							domain: siwe.domain ?? window.location.host,
+							address: checksumAddress,
+							statement: siwe.statement,
+							uri: siwe.uri ?? window.location.origin,
+							chainId: numericChainId,
+							nonce: await siwe.getNonce(checksumAddress),
+							issuedAt: now.toISOString(),
+							expirationTime: expiresAt ?? undefined,
+						});
+						signature = await get().signMessage(message);
+						verified = await siwe.verify({ message, signature, address: checksumAddress, chainId: numericChainId });
+					} catch (error) {
+						throw toWalletError(error);
+					}
+					if (!verified) {
+						throw new WalletError("SIGNATURE_INVALID", get().t("signatureInvalid"));
+					}
+
+					// 签名期间切换了账户时不建立会话
+					if (get().address?.toLowerCase() !== address.toLowerCase()) {
+						throw new WalletError("ACCOUNT_CHANGED", get().t("accountChangedDuringSignIn"));
+					}
+
+					const session: SiweSession = {
+						address: checksumAddress,
+						chainId: numericChainId,
+						message,
+						signature,
+						issuedAt: now.toISOString(),
+						expiresAt,
+					};
+					set({ session, isAuthenticated: true });
+					return session;
+				},
+
+				// 退出登录，只清除会话，不断开钱包
+				signOut: async () => {
+					set({ session: null, isAuthenticated: false });
+					try {
+						await get().siwe?.signOut?.();
+					} catch (error) {
+						reportError(error);
+					}
+				},
+
+				// 清除错误
+				clearError: (action) => set((state) => {
+					if (!action) return { lastError: null, errors: {} };
+					const errors = { ...state.errors };
+					delete errors[action];
+					return {
+						errors,
+						lastError: state.lastError?.action === action ? null : state.lastError,
+					};
+				}),
+
+				// 工具方法
+				formatAddress,
+				formatBalance: (balance) => formatAmount(balance, get().locale),
+				getCurrentNetwork: () => findChain(get().chains, get().chainId),
+				isMetaMaskInstalled,
+
+				// 国际化
+				setLocale: (locale) => set({ locale }),
+				t: (key, params) => translate(get().messages, get().locale, key, params),
 			}),
+			{
+				name: storageKey,
+				storage: createJSONStorage(() => storage),
+				version: PERSIST_VERSION,
+				migrate: (persisted, version) => migratePersistedState(persisted, version) as Partial<WalletStore>,
+				// 服务端渲染时跳过自动恢复，由 WalletProvider 在客户端挂载后恢复，避免水合不一致
+				skipHydration: ssr,
+				partialize: (state) => ({
+					// 只持久化连接状态的数据
+					address: state.isConnected ? state.address : null,
+					accounts: state.isConnected ? state.accounts : [],
+					chainId: state.isConnected ? state.chainId : null,
+					isConnected: state.isConnected,
+					watchOnly: state.isConnected && state.watchOnly,
+					balance: state.isConnected ? state.balance : "0",
+					ensName: state.isConnected ? state.ensName : null,
+					ensAvatar: state.isConnected ? state.ensAvatar : null,
+					userDisconnected: state.userDisconnected, // 持久化用户断开连接状态
+					disconnectedAt: state.disconnectedAt,
+					connectedAt: state.isConnected ? state.connectedAt : null,
+					lastActiveAt: state.isConnected ? state.lastActiveAt : null,
+					currency: state.currency,
+					connectorId: state.connectorId, // 持久化选择的连接器，静默重连时使用同一个钱包
+					tokenBalances: state.isConnected ? state.tokenBalances : {},
+					importedTokens: state.importedTokens,
+					nftAvatars: state.nftAvatars,
+					// 待确认的交易全部保留，刷新页面后继续追踪
+					lastUpdated: state.isConnected ? state.lastUpdated : null,
+					transactions: [
+						...state.transactions.filter(tx => tx.status === "pending"),
+						...state.transactions.filter(tx => tx.status !== "pending").slice(0, MAX_STORED_TRANSACTIONS),
+					].sort((a, b) => b.submittedAt - a.submittedAt),
+					isAuthenticated: state.isConnected && state.isAuthenticated,
+					session: state.isConnected ? state.session : null,
+				}),
+			}
+		)
+	);
+
+	// 启动后台任务：钱包发现、交易轮询、余额订阅和会话到期，返回停止函数
+	const startBackgroundTasks = () => {
+		// 监听 EIP-6963 钱包广播，每个钱包注册为一个连接器
+		const stopDiscovery = discoverProviders
+			? requestProviders((detail) => store.getState().registerConnector(eip6963(detail)))
+			: () => {};
+
+		// 有待确认的交易时轮询回执，全部完成后停止
+		let transactionTimer: ReturnType<typeof setInterval> | null = null;
+		const syncTransactionWatcher = (state: WalletStore) => {
+			const hasPending = state.transactions.some(tx => tx.status === "pending");
+			if (hasPending && !transactionTimer) {
+				transactionTimer = setInterval(() => {
+					void store.getState().checkTransactions();
+				}, state.pollingInterval);
+			} else if (!hasPending && transactionTimer) {
+				clearInterval(transactionTimer);
+				transactionTimer = null;
+			}
+		};
+		const unsubscribeTransactions = store.subscribe(syncTransactionWatcher);
+		syncTransactionWatcher(store.getState());
+
+		// 订阅新区块或定时轮询刷新余额，页面隐藏时暂停
+		const startBalanceWatcher = ({ autoRefresh }: WalletStore) => {
+			let stopSubscription: (() => void) | null = null;
+			const refresh = () => {
+				void store.getState().refreshBalances();
+			};
+
+			const subscribe = () => {
+				if (stopSubscription) return;
+				if (autoRefresh.mode === "interval") {
+					const timer = setInterval(refresh, autoRefresh.interval ?? 15000);
+					stopSubscription = () => clearInterval(timer);
+					return;
+				}
+
+				const provider = getEthersProvider();
+				if (!provider) return;
+				void provider.on("block", refresh);
+				stopSubscription = () => provider.destroy();
+			};
+
+			const unsubscribe = () => {
+				stopSubscription?.();
+				stopSubscription = null;
+			};
+
+			const handleVisibilityChange = () => {
+				if (document.hidden) {
+					unsubscribe();
+				} else {
+					subscribe();
+					refresh();
+				}
+			};
+
+			if (!document.hidden) subscribe();
+			document.addEventListener("visibilitychange", handleVisibilityChange);
+
+			return () => {
+				unsubscribe();
+				document.removeEventListener("visibilitychange", handleVisibilityChange);
+			};
+		};
+
+		// 账户、网络或刷新配置变化时重建余额订阅
+		let balanceWatcher: { key: string; stop: () => void } | null = null;
+		const syncBalanceWatcher = (state: WalletStore) => {
+			const { isConnected, address, chainId, connectorId, connectors, autoRefresh } = state;
+			const enabled = typeof document !== "undefined" && isConnected && !!address && autoRefresh.mode !== "off";
+			// 连接器数量也算在内：EIP-6963 钱包晚于 store 初始化注册时需要重新订阅
+			const key = enabled
+				? [connectorId, connectors.length, address, chainId, autoRefresh.mode, autoRefresh.interval].join(":")
+				: null;
+			if (balanceWatcher?.key === key) return;
+
+			balanceWatcher?.stop();
+			balanceWatcher = key ? { key, stop: startBalanceWatcher(state) } : null;
+		};
+		const unsubscribeBalance = store.subscribe(syncBalanceWatcher);
+		syncBalanceWatcher(store.getState());
+
+		// 连接有效期：定时检查，页面重新可见时也检查；空闲时间以所有标签页中最后一次操作为准
+		const checkSessionPolicy = () => {
+			const { sessionPolicy, isConnected, connectedAt, lastActiveAt, userDisconnected, disconnectedAt } = store.getState();
+			const { maxAge, idleTimeout, rememberDisconnect } = sessionPolicy;
+			const now = Date.now();
+			if (userDisconnected && rememberDisconnect !== undefined && disconnectedAt && now - disconnectedAt > rememberDisconnect) {
+				store.setState({ userDisconnected: false, disconnectedAt: null });
+			}
+			if (!isConnected) return;
+			const expired = (maxAge !== undefined && connectedAt !== null && now - connectedAt > maxAge)
+				|| (idleTimeout !== undefined && lastActiveAt !== null && now - lastActiveAt > idleTimeout);
+			if (expired) {
+				disconnectError = new WalletError("SESSION_EXPIRED", store.getState().t("sessionExpired"));
+				// disconnectWallet 会清空持久化的地址、余额、账户列表和登录会话
+				store.getState().disconnectWallet();
+			}
+		};
+
+		// 记录用户操作，最多每 ACTIVITY_THROTTLE 写入一次，避免频繁持久化和跨标签页同步
+		const handleActivity = () => {
+			const { isConnected, lastActiveAt, sessionPolicy } = store.getState();
+			if (!isConnected || sessionPolicy.idleTimeout === undefined) return;
+			if (!lastActiveAt || Date.now() - lastActiveAt > ACTIVITY_THROTTLE) {
+				store.setState({ lastActiveAt: Date.now() });
+			}
+		};
+
+		const handleSessionVisibility = () => {
+			if (!document.hidden) checkSessionPolicy();
+		};
+
+		const sessionPolicyTimer = setInterval(checkSessionPolicy, SESSION_CHECK_INTERVAL);
+		ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+		document.addEventListener("visibilitychange", handleSessionVisibility);
+		// 先于连接器订阅执行，过期的连接不会被静默恢复
+		let stopPolicyHydrationListener = () => {};
+		if (store.persist.hasHydrated()) {
+			checkSessionPolicy();
+		} else {
+			stopPolicyHydrationListener = store.persist.onFinishHydration(() => checkSessionPolicy());
 		}
-	)
-);
\ No newline at end of file
+
+		// 其他标签页修改了持久化状态时重新读取；本标签页的连接状态变化时通知其他标签页
+		let applyingRemote = false;
+		const tabSync = syncTabs
+			? createTabSync(storageKey, async () => {
+				applyingRemote = true;
+				try {
+					await store.persist.rehydrate();
+				} finally {
+					applyingRemote = false;
+				}
+			})
+			: null;
+		const syncKey = (state: WalletStore) => [
+			state.isConnected,
+			state.address,
+			state.chainId,
+			state.connectorId,
+			state.watchOnly,
+			state.userDisconnected,
+			state.lastActiveAt,
+		].join(":");
+		const unsubscribeTabSync = store.subscribe((state, previous) => {
+			if (!applyingRemote && syncKey(state) !== syncKey(previous)) {
+				tabSync?.notify();
+			}
+		});
+
+		// 只订阅当前连接器的事件，切换钱包或注册新连接器后重新订阅；处理函数从 store 读取最新状态
+		const subscribeConnector = (connector: Connector) => {
+			const handleAccountsChanged = (accounts: string[]) => {
+				void store.getState().syncAccounts(accounts);
+			};
+
+			const handleChainChanged = async (newChainId: string) => {
+				const { address, chainId, updateWalletState } = store.getState();
+				// 只更新网络状态，不重新连接（避免弹窗）
+				if (address && newChainId !== chainId) {
+					await updateWalletState(address, newChainId);
+				}
+			};
+
+			// 静默恢复已授权的连接，不触发弹窗
+			const checkConnection = async () => {
+				const { userDisconnected, isConnected, syncAccounts } = store.getState();
+				// 用户主动断开或已经连接时不需要检查
+				if (userDisconnected || isConnected) return;
+				try {
+					const accounts = await connector.getAccounts();
+					if (accounts.length > 0) {
+						await syncAccounts(accounts);
+					}
+				} catch (error) {
+					reportError(error);
+				}
+			};
+
+			// 钱包与所有网络断开时标记为未连接，保留连接器，钱包重新连上网络后静默恢复
+			const handleDisconnect = (error?: unknown) => {
+				const { isConnected, watchOnly, t } = store.getState();
+				if (!isConnected || watchOnly) return;
+				disconnectError = toWalletError(error ?? new WalletError("DISCONNECTED", t("errorDisconnected")));
+				store.setState({ isConnected: false });
+			};
+
+			const handleMessage = (message: ProviderMessage) => {
+				events.emit("message", message);
+			};
+
+			connector.on("accountsChanged", handleAccountsChanged);
+			connector.on("chainChanged", handleChainChanged);
+			connector.on("connect", checkConnection);
+			connector.on("disconnect", handleDisconnect);
+			connector.on("message", handleMessage);
+			// 持久化状态恢复后再检查，否则无法知道用户是否主动断开过
+			let stopHydrationListener = () => {};
+			if (store.persist.hasHydrated()) {
+				void checkConnection();
+			} else {
+				stopHydrationListener = store.persist.onFinishHydration(() => checkConnection());
+			}
+
+			return () => {
+				stopHydrationListener();
+				connector.off("accountsChanged", handleAccountsChanged);
+				connector.off("chainChanged", handleChainChanged);
+				connector.off("connect", checkConnection);
+				connector.off("disconnect", handleDisconnect);
+				connector.off("message", handleMessage);
+			};
+		};
+
+		let connectorSubscription: { connector: Connector; stop: () => void } | null = null;
+		const syncConnectorListeners = (state: WalletStore) => {
+			const connector = state.getConnector();
+			if (connectorSubscription?.connector === connector) return;
+			connectorSubscription?.stop();
+			connectorSubscription = connector ? { connector, stop: subscribeConnector(connector) } : null;
+		};
+		const unsubscribeConnector = store.subscribe(syncConnectorListeners);
+		syncConnectorListeners(store.getState());
+
+		// 登录会话到期后自动退出
+		let sessionTimer: ReturnType<typeof setTimeout> | null = null;
+		let scheduledSession: SiweSession | null = null;
+		const syncSessionExpiry = (state: WalletStore) => {
+			if (state.session === scheduledSession) return;
+			scheduledSession = state.session;
+			if (sessionTimer) {
+				clearTimeout(sessionTimer);
+				sessionTimer = null;
+			}
+
+			const session = state.session;
+			if (!session?.expiresAt) return;
+			if (isSessionExpired(session)) {
+				void state.signOut();
+				return;
+			}
+			sessionTimer = setTimeout(() => {
+				void store.getState().signOut();
+			}, new Date(session.expiresAt).getTime() - Date.now());
+		};
+		const unsubscribeSession = store.subscribe(syncSessionExpiry);
+		syncSessionExpiry(store.getState());
+
+		return () => {
+			stopDiscovery();
+			unsubscribeTransactions();
+			unsubscribeBalance();
+			unsubscribeSession();
+			unsubscribeConnector();
+			connectorSubscription?.stop();
+			clearInterval(sessionPolicyTimer);
+			ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+			document.removeEventListener("visibilitychange", handleSessionVisibility);
+			stopPolicyHydrationListener();
+			unsubscribeTabSync();
+			tabSync?.close();
+			if (transactionTimer) clearInterval(transactionTimer);
+			balanceWatcher?.stop();
+			if (sessionTimer) clearTimeout(sessionTimer);
+		};
+	};
+
+	// 后台任务按引用计数启停，多个 WalletProvider 共用一个 store 时只运行一份
+	let running = 0;
+	let stopTasks: (() => void) | null = null;
+	const start = () => {
+		if (typeof window === "undefined") return () => {};
+		if (running++ === 0) stopTasks = startBackgroundTasks();
+		let stopped = false;
+		return () => {
+			if (stopped) return;
+			stopped = true;
+			if (--running === 0) {
+				stopTasks?.();
+				stopTasks = null;
+			}
+		};
+	};
+
+	if (Object.keys(config).length > 0) {
+		store.getState().configure(config);
+	}
+
+	// 刷新页面后重新注册只读连接器，网络已不在配置中时退出只读模式
+	const restoreWatchOnly = (state: WalletStore) => {
+		const { watchOnly, address, chainId, chains, connectors } = state;
+		if (!watchOnly || !address || !chainId) return;
+		if (connectors.some(connector => connector.id === WATCH_ONLY_CONNECTOR_ID)) return;
+		if (!findChain(chains, chainId)) {
+			state.resetWallet();
+			return;
+		}
+		state.registerConnector(watchOnlyConnector({ address, chains, chainId, id: WATCH_ONLY_CONNECTOR_ID }));
+	};
+	restoreWatchOnly(store.getState());
+	store.persist.onFinishHydration(restoreWatchOnly);
+
+	// 由状态变化产生钱包事件，连接、断开和切换都只触发一次，与由哪个组件或操作引起无关
+	store.subscribe((state, previous) => {
+		if (state.isConnected && state.address && state.chainId) {
+			if (!previous.isConnected) {
+				events.emit("connect", { address: state.address, chainId: state.chainId, connectorId: state.connectorId });
+				return;
+			}
+			if (!sameAddress(state.address, previous.address)) {
+				events.emit("accountChanged", { address: state.address, previous: previous.address });
+			}
+			if (state.chainId !== previous.chainId) {
+				events.emit("chainChanged", { chainId: state.chainId, previous: previous.chainId });
+			}
+		} else if (previous.isConnected && !state.isConnected) {
+			events.emit("disconnect", { error: disconnectError });
+			disconnectError = null;
+		}
+	});
+
+	return Object.assign(store, { start, on: events.on });
+};
+
+// 默认实例，没有 WalletProvider 时组件和 hooks 使用它；
+// 导入时不启动后台任务，首次读取状态、订阅或监听事件时在浏览器中自动启动并一直运行，不依赖组件挂载
+export const useWalletStore = createWalletStore();
+
+let defaultStoreStarted = false;
+// 在微任务中启动，避免在组件渲染期间更新状态
+const startDefaultStore = () => {
+	if (defaultStoreStarted || typeof window === "undefined") return;
+	defaultStoreStarted = true;
+	queueMicrotask(() => {
+		useWalletStore.start();
+	});
+};
+const { getState, subscribe, on } = useWalletStore;
+Object.assign(useWalletStore, {
+	getState: (() => {
+		startDefaultStore();
+		return getState();
+	}) as typeof getState,
+	subscribe: ((listener) => {
+		startDefaultStore();
+		return subscribe(listener);
+	}) as typeof subscribe,
+	on: ((event, handler) => {
+		startDefaultStore();
+		return on(event, handler);
+	}) as typeof on,
+});
+
+// 供宿主应用传入网络等配置
+export const configureWallet = (config: WalletConfig) => {
+	useWalletStore.getState().configure(config);
+};
+
+// 供宿主应用注册自定义连接器（WalletConnect、私钥签名器等）
+export const registerConnector = (connector: Connector) => {
+	useWalletStore.getState().registerConnector(connector);
+};
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { ethers } from "ethers";
+import { injected } from "../connectors";
+import type { Connector } from "../connectors";
+import type { EIP6963ProviderInfo } from "../connectors/eip6963";
+import type { EnsResolver } from "../ens";
+import { memoryStorage } from "../stores/storage";
+import { createWalletStore } from "../stores/walletStore";
+import type { WalletStoreOptions } from "../stores/walletStore";
+import { createMockProvider } from "./mockProvider";
+import type { MockProvider } from "./mockProvider";
+
+export { createMockProvider, TEST_MNEMONIC } from "./mockProvider";
+export type { MockContract, MockProvider, MockProviderOptions, MockRequest, MockTokenOptions } from "./mockProvider";
+
+// 使用 mock provider 的注入连接器
+export const mockConnector = (provider: MockProvider, options: { id?: string; name?: string } = {}): Connector => {
+	return injected({
+		id: options.id ?? "mock",
+		name: options.name ?? "Mock Wallet",
+		type: "injected",
+		getProvider: () => provider,
+	});
+};
+
+// 安装为 window.ethereum，返回恢复原值的函数
+export const installMockProvider = (provider: MockProvider) => {
+	const previous = window.ethereum;
+	window.ethereum = provider;
+	return () => {
+		window.ethereum = previous;
+	};
+};
+
+// 通过 EIP-6963 广播 mock provider，返回停止响应 requestProvider 的函数
+export const announceMockProvider = (provider: MockProvider, info: Partial<EIP6963ProviderInfo> = {}) => {
+	const detail = Object.freeze({
+		info: {
+			uuid: info.uuid ?? "00000000-0000-4000-8000-000000000000",
+			name: info.name ?? "Mock Wallet",
+			icon: info.icon ?? "data:image/svg+xml,<svg xmlns='http://www.w3.org/2000/svg'/>",
+			rdns: info.rdns ?? "io.example.mock",
+		},
+		provider,
+	});
+	const announce = () => {
+		window.dispatchEvent(new CustomEvent("eip6963:announceProvider", { detail }));
+	};
+
+	window.addEventListener("eip6963:requestProvider", announce);
+	announce();
+	return () => window.removeEventListener("eip6963:requestProvider", announce);
+};
+
+// 内存中的 ENS 解析器，names 为地址到名称的映射，不发起网络请求
+export const mockEnsResolver = (names: Record<string, string> = {}): EnsResolver => {
+	const byAddress = new Map(Object.entries(names).map(([address, name]) => [address.toLowerCase(), name]));
+	const lookupAddress = async (address: string) => byAddress.get(address.toLowerCase()) ?? null;
+	return {
+		lookupAddress,
+		resolveName: async (name) => {
+			const entry = [...byAddress].find(([, item]) => item.toLowerCase() === name.toLowerCase());
+			return entry ? ethers.getAddress(entry[0]) : null;
+		},
+		getAvatar: async () => null,
+		getProfile: async (address) => ({ ensName: await lookupAddress(address), ensAvatar: null }),
+		clearCache: () => {},
+	};
+};
+
+// 创建连接到 mock provider 的独立 store：内存存储，不发现其他钱包，不跨标签页同步，
+// ENS 和价格查询不访问网络
+export const createTestWalletStore = (options: WalletStoreOptions & { provider?: MockProvider; ensNames?: Record<string, string> } = {}) => {
+	const { provider = createMockProvider(), ensNames, ...storeOptions } = options;
+	const store = createWalletStore({
+		storage: memoryStorage(),
+		discoverProviders: false,
+		syncTabs: false,
+		prices: { sources: [] },
+		...storeOptions,
+		connectors: [mockConnector(provider), ...(storeOptions.connectors ?? [])],
+	});
+	store.setState({ ensResolver: mockEnsResolver(ensNames) });
+	return { store, provider };
+};
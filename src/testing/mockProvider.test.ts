@@ -0,0 +1,141 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { ERC20_ABI } from "../tokens";
+import { createMockProvider } from "./mockProvider";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const SPENDER = "0x00000000000000000000000000000000000000bb";
+
+const setup = (options: Parameters<typeof createMockProvider>[0] = {}) => {
+	const mock = createMockProvider({ authorized: true, ...options });
+	const provider = new ethers.BrowserProvider(mock, undefined, { pollingInterval: 50 });
+	return { mock, provider, address: mock.accounts[0] };
+};
+
+describe("createMockProvider", () => {
+	it("derives the default test accounts", () => {
+		const mock = createMockProvider();
+		expect(mock.accounts[0]).toBe("0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266");
+		expect(mock.accounts).toHaveLength(3);
+	});
+
+	it("only exposes accounts after eth_requestAccounts", async () => {
+		const mock = createMockProvider();
+		expect(await mock.request({ method: "eth_accounts" })).toEqual([]);
+		await mock.request({ method: "eth_requestAccounts" });
+		expect(await mock.request({ method: "eth_accounts" })).toEqual(mock.accounts);
+	});
+
+	it("rejects the next user request with 4001", async () => {
+		const mock = createMockProvider();
+		mock.rejectNext();
+		await expect(mock.request({ method: "eth_requestAccounts" })).rejects.toMatchObject({ code: 4001 });
+		await expect(mock.request({ method: "eth_requestAccounts" })).resolves.toEqual(mock.accounts);
+	});
+
+	it("returns 4902 for unknown chains until they are added", async () => {
+		const mock = createMockProvider();
+		const changes: string[] = [];
+		mock.on("chainChanged", ((chainId: string) => changes.push(chainId)) as (...args: never[]) => void);
+		await expect(mock.request({ method: "wallet_switchEthereumChain", params: [{ chainId: "0x89" }] })).rejects.toMatchObject({ code: 4902 });
+		await mock.request({ method: "wallet_addEthereumChain", params: [{ chainId: "0x89" }] });
+		expect(mock.chainId).toBe("0x89");
+		expect(changes).toEqual(["0x89"]);
+	});
+
+	it("sends transactions that ethers can resolve and wait for", async () => {
+		const { mock, provider, address } = setup();
+		const signer = await provider.getSigner(address);
+		const recipient = mock.accounts[1];
+
+		const tx = await signer.sendTransaction({ to: recipient, value: ethers.parseEther("1") });
+		expect(tx.from).toBe(address);
+		expect(tx.nonce).toBe(0);
+		const receipt = await tx.wait();
+		expect(receipt?.status).toBe(1);
+		expect(receipt?.blockNumber).toBe(1);
+		expect(await provider.getBalance(recipient)).toBe(ethers.parseEther("101"));
+		expect(await provider.getTransactionCount(address)).toBe(1);
+		// 返回的字段可以还原出相同哈希的签名交易
+		const fetched = await provider.getTransaction(tx.hash);
+		expect(ethers.Transaction.from(fetched!).hash).toBe(tx.hash);
+	});
+
+	it("keeps transactions pending until mined when automine is off", async () => {
+		const { mock, provider, address } = setup({ automine: false });
+		const signer = await provider.getSigner(address);
+		const tx = await signer.sendTransaction({ to: mock.accounts[1], value: 1n });
+		expect(await provider.getTransactionReceipt(tx.hash)).toBeNull();
+		expect(await provider.getTransactionCount(address, "pending")).toBe(1);
+		expect(await provider.getTransactionCount(address, "latest")).toBe(0);
+
+		mock.mine();
+		expect((await tx.wait())?.status).toBe(1);
+		expect(mock.blockNumber).toBe(1);
+	});
+
+	it("replaces a pending transaction with the same nonce", async () => {
+		const { mock, provider, address } = setup({ automine: false });
+		const signer = await provider.getSigner(address);
+		const original = await signer.sendTransaction({ to: mock.accounts[1], value: 1n });
+		const replacement = await signer.sendTransaction({ to: address, value: 0n, nonce: original.nonce });
+		mock.mine();
+		expect(await provider.getTransactionReceipt(original.hash)).toBeNull();
+		expect((await provider.getTransactionReceipt(replacement.hash))?.status).toBe(1);
+	});
+
+	it("rejects transactions the account cannot pay for", async () => {
+		const { mock, provider, address } = setup({ balances: { "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266": 0n } });
+		const signer = await provider.getSigner(address);
+		await expect(signer.sendTransaction({ to: mock.accounts[1], value: 1n, gasLimit: 21000n })).rejects.toThrow(/insufficient funds/);
+	});
+
+	it("serves ERC-20 reads, transfers and Transfer logs", async () => {
+		const { mock, provider, address } = setup({
+			tokens: { [TOKEN]: { symbol: "TKN", decimals: 6, balances: { "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266": 1_000_000n } } },
+		});
+		const token = new ethers.Contract(TOKEN, ERC20_ABI, await provider.getSigner(address));
+		expect(await token.symbol()).toBe("TKN");
+		expect(await token.decimals()).toBe(6n);
+
+		const receipt = await (await token.transfer(mock.accounts[1], 400_000n)).wait();
+		expect(receipt.status).toBe(1);
+		expect(mock.getTokenBalance(TOKEN, mock.accounts[1])).toBe(400_000n);
+		const [log] = await provider.getLogs({ address: TOKEN, topics: [token.interface.getEvent("Transfer")!.topicHash], fromBlock: 0 });
+		expect(token.interface.parseLog(log)?.args.value).toBe(400_000n);
+	});
+
+	it("reverts a non-zero approve on zero-first tokens", async () => {
+		const { mock, provider, address } = setup({
+			tokens: { [TOKEN]: { symbol: "USDT", zeroFirst: true, allowances: { "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266": { [SPENDER]: 5n } } } },
+		});
+		const token = new ethers.Contract(TOKEN, ERC20_ABI, await provider.getSigner(address));
+		const data = token.interface.encodeFunctionData("approve", [SPENDER, 10n]);
+		await expect(mock.request({ method: "eth_estimateGas", params: [{ from: address, to: TOKEN, data }] })).rejects.toMatchObject({ code: 3 });
+		await (await token.approve(SPENDER, 0n)).wait();
+		await (await token.approve(SPENDER, 10n)).wait();
+		expect(await token.allowance(address, SPENDER)).toBe(10n);
+	});
+
+	it("calls custom contract functions", async () => {
+		let count = 0n;
+		const { provider, address } = setup({
+			contracts: {
+				[TOKEN]: {
+					abi: ["function count() view returns (uint256)", "function increment()"],
+					functions: { count: () => count, increment: () => { count += 1n; } },
+				},
+			},
+		});
+		const counter = new ethers.Contract(TOKEN, ["function count() view returns (uint256)", "function increment()"], await provider.getSigner(address));
+		await (await counter.increment()).wait();
+		expect(await counter.count()).toBe(1n);
+	});
+
+	it("signs messages with the derived account keys", async () => {
+		const { provider, address } = setup();
+		const signer = await provider.getSigner(address);
+		const signature = await signer.signMessage("hello");
+		expect(ethers.verifyMessage("hello", signature)).toBe(address);
+	});
+});
@@ -0,0 +1,674 @@
+import { ethers } from "ethers";
+import type { EIP1193Provider, RequestArguments } from "../connectors";
+import { DEFAULT_TOKENS, ERC20_ABI } from "../tokens";
+
+// Hardhat / Anvil 的默认助记词，派生出的账户仅用于测试
+export const TEST_MNEMONIC = "test test test test test test test test test test test junk";
+
+const DEFAULT_BALANCE = ethers.parseEther("100");
+const DEFAULT_GAS_PRICE = ethers.parseUnits("1", "gwei");
+const BLOCK_GAS_LIMIT = 30_000_000n;
+
+// 内存中的 ERC-20 合约
+export interface MockTokenOptions {
+	symbol: string;
+	name?: string;
+	decimals?: number; // 默认 18
+	balances?: Record<string, bigint>; // 按地址设置的余额
+	allowances?: Record<string, Record<string, bigint>>; // owner → spender → 额度
+	zeroFirst?: boolean; // 与 USDT 相同，额度不为 0 时不允许直接改为另一个非 0 值
+}
+
+// 自定义合约：函数按名称实现，view 函数通过 eth_call 调用，其余函数在交易上链时执行，抛出错误视为 revert
+export interface MockContract {
+	abi: ethers.InterfaceAbi;
+	functions: Record<string, (args: unknown[], context: { from: string | null; value: bigint }) => unknown>;
+}
+
+export interface MockProviderOptions {
+	accounts?: number | string[]; // 账户数量（从 TEST_MNEMONIC 派生）或私钥列表，默认 3 个
+	chainId?: string; // 默认 0x1
+	chains?: string[]; // 钱包已添加的网络，切换到其他网络返回 4902，默认只有 chainId
+	balances?: Record<string, bigint>; // 按地址设置的原生币余额（wei），未设置的测试账户默认 100 ETH
+	tokens?: Record<string, MockTokenOptions>; // 按合约地址，内置代币列表中的代币默认已部署，余额为 0
+	contracts?: Record<string, MockContract>; // 按合约地址
+	authorized?: boolean; // 是否已授权，true 时 eth_accounts 直接返回账户，用于测试静默重连
+	automine?: boolean; // 提交交易后立即打包，默认 true；为 false 时需要调用 mine()
+	gasPrice?: bigint; // eth_gasPrice 和区块 baseFeePerGas，默认 1 gwei
+	handlers?: Record<string, (params: unknown[]) => unknown>; // 自定义或覆盖 RPC 方法
+	isMetaMask?: boolean;
+}
+
+// 记录的请求，便于断言
+export interface MockRequest {
+	method: string;
+	params: unknown[];
+}
+
+// 内存中的 EIP-1193 provider，通过脚本方法模拟用户操作和出块
+export interface MockProvider extends EIP1193Provider {
+	readonly accounts: string[];
+	readonly chainId: string;
+	readonly authorized: boolean;
+	readonly blockNumber: number;
+	readonly requests: MockRequest[];
+	readonly sentTransactions: Record<string, unknown>[]; // eth_sendTransaction 的原始参数
+
+	// 下一个匹配的请求返回 4001 用户拒绝，不指定方法时匹配任意需要用户确认的请求
+	rejectNext: (method?: string) => void;
+	// 下一个匹配的请求返回指定错误
+	failNext: (method: string, error: { code: number; message?: string }) => void;
+	// 模拟用户在钱包中切换或断开账户，会触发 accountsChanged
+	setAccounts: (accounts: string[]) => void;
+	switchAccount: (indexOrAddress: number | string) => void;
+	// 模拟用户在钱包中切换网络，会触发 chainChanged
+	setChain: (chainId: string) => void;
+	addChain: (chainId: string) => void;
+	setBalance: (address: string, balance: bigint) => void;
+	getBalance: (address: string) => bigint;
+	setTokenBalance: (token: string, owner: string, balance: bigint) => void;
+	getTokenBalance: (token: string, owner: string) => bigint;
+	getAllowance: (token: string, owner: string, spender: string) => bigint;
+	// 打包待处理的交易，每次产生一个区块
+	mine: (blocks?: number) => void;
+	setAutomine: (automine: boolean) => void;
+	// 触发 connect / disconnect / message 事件
+	emitConnect: () => void;
+	emitDisconnect: (error?: { code: number; message?: string }) => void;
+	emitMessage: (type: string, data: unknown) => void;
+	// 撤销授权，eth_accounts 返回空数组
+	revoke: () => void;
+}
+
+// 需要用户在钱包中确认的方法
+const USER_METHODS = new Set([
+	"eth_requestAccounts",
+	"wallet_requestPermissions",
+	"wallet_switchEthereumChain",
+	"wallet_addEthereumChain",
+	"personal_sign",
+	"eth_signTypedData_v4",
+	"eth_sendTransaction",
+]);
+
+interface MockToken {
+	symbol: string;
+	name: string;
+	decimals: number;
+	balances: Map<string, bigint>;
+	allowances: Map<string, bigint>; // key 为 owner:spender
+	zeroFirst: boolean;
+}
+
+interface MockLog {
+	address: string;
+	topics: string[];
+	data: string;
+}
+
+interface MockReceipt {
+	status: number;
+	gasUsed: bigint;
+	effectiveGasPrice: bigint;
+	logs: MockLog[];
+}
+
+interface MockTransaction {
+	tx: ethers.Transaction;
+	from: string;
+	block: MockBlock | null;
+	index: number;
+	receipt: MockReceipt | null;
+}
+
+interface MockBlock {
+	number: number;
+	hash: string;
+	parentHash: string;
+	timestamp: number;
+	baseFeePerGas: bigint;
+	transactions: string[];
+}
+
+// 执行失败，estimateGas 和 eth_call 返回 execution reverted，交易上链后 status 为 0
+class Revert extends Error {}
+
+const rpcError = (code: number, message: string) => Object.assign(new Error(message), { code });
+
+const toKey = (address: unknown) => String(address).toLowerCase();
+
+const toBigInt = (value: unknown, fallback = 0n) => value === undefined || value === null ? fallback : BigInt(value as string);
+
+const createWallets = (accounts: number | string[]) => {
+	if (Array.isArray(accounts)) {
+		return accounts.map(key => new ethers.Wallet(key));
+	}
+	const root = ethers.HDNodeWallet.fromPhrase(TEST_MNEMONIC, undefined, "m/44'/60'/0'/0");
+	return Array.from({ length: accounts }, (_, index) => root.deriveChild(index));
+};
+
+const erc20Interface = new ethers.Interface([...ERC20_ABI, "function totalSupply() view returns (uint256)"]);
+const TRANSFER_TOPIC = erc20Interface.getEvent("Transfer")!.topicHash;
+const APPROVAL_TOPIC = erc20Interface.getEvent("Approval")!.topicHash;
+
+// 估算的 gas 用量，与实际执行无关
+const GAS_NATIVE = 21000n;
+const GAS_CALL = 65000n;
+
+export const createMockProvider = (options: MockProviderOptions = {}): MockProvider => {
+	const wallets = createWallets(options.accounts ?? 3);
+	const signers = new Map(wallets.map(wallet => [toKey(wallet.address), wallet]));
+	const handlers = options.handlers ?? {};
+	const gasPrice = options.gasPrice ?? DEFAULT_GAS_PRICE;
+
+	let accounts = wallets.map(wallet => wallet.address);
+	let chainId = ethers.toQuantity(options.chainId ?? "0x1");
+	const chains = new Set((options.chains ?? [chainId]).map(id => ethers.toQuantity(id)));
+	let authorized = options.authorized ?? false;
+	let automine = options.automine ?? true;
+
+	// 链上状态
+	const balances = new Map(wallets.map(wallet => [toKey(wallet.address), DEFAULT_BALANCE]));
+	Object.entries(options.balances ?? {}).forEach(([address, balance]) => balances.set(toKey(address), balance));
+	const builtInTokens = Object.values(DEFAULT_TOKENS).flat().map((token): [string, MockTokenOptions] => [
+		token.address,
+		{ symbol: token.symbol, name: token.name, decimals: token.decimals },
+	]);
+	const tokens = new Map([...builtInTokens, ...Object.entries(options.tokens ?? {})].map(([address, token]): [string, MockToken] => [toKey(address), {
+		symbol: token.symbol,
+		name: token.name ?? token.symbol,
+		decimals: token.decimals ?? 18,
+		balances: new Map(Object.entries(token.balances ?? {}).map(([owner, balance]) => [toKey(owner), balance])),
+		allowances: new Map(Object.entries(token.allowances ?? {}).flatMap(([owner, spenders]) =>
+			Object.entries(spenders).map(([spender, amount]): [string, bigint] => [`${toKey(owner)}:${toKey(spender)}`, amount]))),
+		zeroFirst: token.zeroFirst ?? false,
+	}]));
+	const contracts = new Map(Object.entries(options.contracts ?? {}).map(([address, contract]) => [toKey(address), {
+		iface: new ethers.Interface(contract.abi),
+		functions: contract.functions,
+	}]));
+	const nonces = new Map<string, number>(); // 已上链的交易数
+	const transactions = new Map<string, MockTransaction>();
+	let pool: string[] = []; // 待打包的交易哈希
+
+	const createBlock = (number: number, parentHash: string, txs: string[] = []): MockBlock => ({
+		number,
+		hash: ethers.keccak256(ethers.toUtf8Bytes(`mock-block:${number}:${txs.join(",")}:${Math.random()}`)),
+		parentHash,
+		timestamp: Math.floor(Date.now() / 1000),
+		baseFeePerGas: gasPrice,
+		transactions: txs,
+	});
+	const blocks: MockBlock[] = [createBlock(0, ethers.ZeroHash)];
+	const latestBlock = () => blocks[blocks.length - 1];
+
+	const listeners = new Map<string, Set<(...args: never[]) => void>>();
+	const emit = (event: string, ...args: unknown[]) => {
+		listeners.get(event)?.forEach(listener => (listener as (...args: unknown[]) => void)(...args));
+	};
+
+	const requests: MockRequest[] = [];
+	const sentTransactions: Record<string, unknown>[] = [];
+	const scripted: { method?: string; error: { code: number; message?: string } }[] = [];
+
+	// 取出匹配当前请求的预设错误
+	const takeScripted = (method: string) => {
+		const index = scripted.findIndex(item => item.method ? item.method === method : USER_METHODS.has(method));
+		return index === -1 ? null : scripted.splice(index, 1)[0].error;
+	};
+
+	// 只能用已授权且仍在钱包中的账户签名
+	const requireSigner = (address: unknown) => {
+		const key = toKey(address);
+		const signer = signers.get(key);
+		if (!authorized || !signer || !accounts.some(account => toKey(account) === key)) {
+			throw rpcError(4100, "The requested account and/or method has not been authorized by the user.");
+		}
+		return signer;
+	};
+
+	const setChain = (next: string) => {
+		const id = ethers.toQuantity(next);
+		if (id === chainId) return;
+		chainId = id;
+		emit("chainChanged", id);
+	};
+
+	const requireToken = (address: string) => {
+		const token = tokens.get(toKey(address));
+		if (!token) throw new Error(`未知代币: ${address}`);
+		return token;
+	};
+
+	// 执行合约调用：dryRun 时不修改状态，用于 eth_call 和 eth_estimateGas
+	const execute = (from: string | null, to: string, data: string, value: bigint, dryRun: boolean): { result: string; logs: MockLog[] } => {
+		const token = tokens.get(toKey(to));
+		if (token) {
+			const call = erc20Interface.parseTransaction({ data });
+			if (!call) throw new Revert("unknown selector");
+			const encode = (...values: unknown[]) => erc20Interface.encodeFunctionResult(call.fragment, values);
+			const owner = toKey(from);
+			switch (call.name) {
+				case "name": return { result: encode(token.name), logs: [] };
+				case "symbol": return { result: encode(token.symbol), logs: [] };
+				case "decimals": return { result: encode(token.decimals), logs: [] };
+				case "totalSupply": return { result: encode([...token.balances.values()].reduce((sum, item) => sum + item, 0n)), logs: [] };
+				case "balanceOf": return { result: encode(token.balances.get(toKey(call.args[0])) ?? 0n), logs: [] };
+				case "allowance": return { result: encode(token.allowances.get(`${toKey(call.args[0])}:${toKey(call.args[1])}`) ?? 0n), logs: [] };
+				case "transfer": {
+					const [recipient, amount] = call.args as unknown as [string, bigint];
+					const balance = token.balances.get(owner) ?? 0n;
+					if (balance < amount) throw new Revert("transfer amount exceeds balance");
+					if (!dryRun) {
+						token.balances.set(owner, balance - amount);
+						token.balances.set(toKey(recipient), (token.balances.get(toKey(recipient)) ?? 0n) + amount);
+					}
+					return {
+						result: encode(true),
+						logs: [{ address: to, topics: [TRANSFER_TOPIC, ethers.zeroPadValue(owner, 32), ethers.zeroPadValue(recipient, 32)], data: ethers.toBeHex(amount, 32) }],
+					};
+				}
+				case "approve": {
+					const [spender, amount] = call.args as unknown as [string, bigint];
+					const key = `${owner}:${toKey(spender)}`;
+					if (token.zeroFirst && amount > 0n && (token.allowances.get(key) ?? 0n) > 0n) throw new Revert("allowance must be reset to zero first");
+					if (!dryRun) token.allowances.set(key, amount);
+					return {
+						result: encode(true),
+						logs: [{ address: to, topics: [APPROVAL_TOPIC, ethers.zeroPadValue(owner, 32), ethers.zeroPadValue(spender, 32)], data: ethers.toBeHex(amount, 32) }],
+					};
+				}
+				default:
+					throw new Revert("unknown selector");
+			}
+		}
+
+		const contract = contracts.get(toKey(to));
+		if (contract) {
+			const call = contract.iface.parseTransaction({ data, value });
+			const implementation = call && contract.functions[call.name];
+			if (!call || !implementation) throw new Revert("unknown selector");
+			const isView = call.fragment.stateMutability === "view" || call.fragment.stateMutability === "pure";
+			// 写操作的预估不执行函数，避免修改合约状态
+			if (dryRun && !isView) return { result: "0x", logs: [] };
+			let output: unknown;
+			try {
+				output = implementation([...call.args], { from, value });
+			} catch (error) {
+				throw new Revert(error instanceof Error ? error.message : String(error));
+			}
+			const values = call.fragment.outputs.length === 1 ? [output] : (output as unknown[] | undefined) ?? [];
+			return { result: contract.iface.encodeFunctionResult(call.fragment, values), logs: [] };
+		}
+
+		// 普通账户或未知合约
+		if (data && data !== "0x") throw new Revert("call to non-contract");
+		return { result: "0x", logs: [] };
+	};
+
+	const nextNonce = (address: string, pending: boolean) => {
+		const mined = nonces.get(toKey(address)) ?? 0;
+		if (!pending) return mined;
+		const queued = pool.map(hash => transactions.get(hash)!).filter(item => item.from === toKey(address));
+		return queued.reduce((max, item) => Math.max(max, item.tx.nonce + 1), mined);
+	};
+
+	const effectiveGasPrice = (tx: ethers.Transaction, baseFee: bigint) => {
+		if (tx.maxFeePerGas === null) return tx.gasPrice ?? baseFee;
+		const tip = tx.maxPriorityFeePerGas ?? 0n;
+		return tx.maxFeePerGas < baseFee + tip ? tx.maxFeePerGas : baseFee + tip;
+	};
+
+	// 打包一个区块：按提交顺序执行，nonce 不连续的交易留在交易池
+	const mineBlock = () => {
+		const parent = latestBlock();
+		const block = createBlock(parent.number + 1, parent.hash);
+		const remaining: string[] = [];
+		for (const hash of pool) {
+			const item = transactions.get(hash)!;
+			if (item.tx.nonce !== (nonces.get(item.from) ?? 0)) {
+				remaining.push(hash);
+				continue;
+			}
+			const price = effectiveGasPrice(item.tx, block.baseFeePerGas);
+			const value = item.tx.value;
+			let receipt: MockReceipt;
+			try {
+				const { logs } = item.tx.to ? execute(item.from, item.tx.to, item.tx.data, value, false) : { logs: [] };
+				const gasUsed = item.tx.data === "0x" ? GAS_NATIVE : GAS_CALL;
+				balances.set(item.from, (balances.get(item.from) ?? 0n) - value - gasUsed * price);
+				if (item.tx.to) balances.set(toKey(item.tx.to), (balances.get(toKey(item.tx.to)) ?? 0n) + value);
+				receipt = { status: 1, gasUsed, effectiveGasPrice: price, logs };
+			} catch (error) {
+				if (!(error instanceof Revert)) throw error;
+				balances.set(item.from, (balances.get(item.from) ?? 0n) - GAS_CALL * price);
+				receipt = { status: 0, gasUsed: GAS_CALL, effectiveGasPrice: price, logs: [] };
+			}
+			nonces.set(item.from, item.tx.nonce + 1);
+			item.block = block;
+			item.index = block.transactions.length;
+			item.receipt = receipt;
+			block.transactions.push(hash);
+		}
+		pool = remaining;
+		blocks.push(block);
+	};
+
+	const findBlock = (tag: unknown) => {
+		if (tag === "latest" || tag === "pending" || tag === "safe" || tag === "finalized" || tag === undefined) return latestBlock();
+		if (tag === "earliest") return blocks[0];
+		if (typeof tag === "string" && tag.length === 66) return blocks.find(block => block.hash === tag) ?? null;
+		return blocks[Number(tag)] ?? null;
+	};
+
+	const formatTransaction = (item: MockTransaction) => {
+		const { tx } = item;
+		const signature = tx.signature!;
+		return {
+			hash: tx.hash,
+			type: ethers.toQuantity(tx.type ?? 0),
+			from: ethers.getAddress(item.from),
+			to: tx.to,
+			nonce: ethers.toQuantity(tx.nonce),
+			value: ethers.toQuantity(tx.value),
+			gas: ethers.toQuantity(tx.gasLimit),
+			input: tx.data,
+			chainId: ethers.toQuantity(tx.chainId),
+			...(tx.maxFeePerGas !== null
+				? { maxFeePerGas: ethers.toQuantity(tx.maxFeePerGas), maxPriorityFeePerGas: ethers.toQuantity(tx.maxPriorityFeePerGas ?? 0n), accessList: [] }
+				: { gasPrice: ethers.toQuantity(tx.gasPrice ?? 0n) }),
+			r: signature.r,
+			s: signature.s,
+			v: ethers.toQuantity(signature.v),
+			yParity: ethers.toQuantity(signature.yParity),
+			blockHash: item.block?.hash ?? null,
+			blockNumber: item.block ? ethers.toQuantity(item.block.number) : null,
+			transactionIndex: item.block ? ethers.toQuantity(item.index) : null,
+		};
+	};
+
+	const formatBlock = (block: MockBlock, fullTransactions: boolean) => ({
+		hash: block.hash,
+		parentHash: block.parentHash,
+		number: ethers.toQuantity(block.number),
+		timestamp: ethers.toQuantity(block.timestamp),
+		nonce: "0x0000000000000000",
+		difficulty: "0x0",
+		gasLimit: ethers.toQuantity(BLOCK_GAS_LIMIT),
+		gasUsed: "0x0",
+		miner: ethers.ZeroAddress,
+		extraData: "0x",
+		baseFeePerGas: ethers.toQuantity(block.baseFeePerGas),
+		transactions: block.transactions.map(hash => fullTransactions ? formatTransaction(transactions.get(hash)!) : hash),
+	});
+
+	const blockLogs = (block: MockBlock) => block.transactions.flatMap((hash, transactionIndex) =>
+		(transactions.get(hash)!.receipt?.logs ?? []).map(log => ({ ...log, hash, transactionIndex })));
+
+	const formatLog = (log: MockLog & { hash: string; transactionIndex: number }, block: MockBlock, logIndex: number) => ({
+		address: ethers.getAddress(log.address),
+		topics: log.topics,
+		data: log.data,
+		blockHash: block.hash,
+		blockNumber: ethers.toQuantity(block.number),
+		transactionHash: log.hash,
+		transactionIndex: ethers.toQuantity(log.transactionIndex),
+		logIndex: ethers.toQuantity(logIndex),
+		removed: false,
+	});
+
+	// eth_estimateGas / eth_call 的参数
+	const callParams = (params: unknown[]) => {
+		const call = (params[0] ?? {}) as Record<string, string | undefined>;
+		return { from: call.from ? toKey(call.from) : null, to: call.to ?? null, data: call.data ?? call.input ?? "0x", value: toBigInt(call.value) };
+	};
+
+	const revertError = (error: unknown) => Object.assign(rpcError(3, `execution reverted: ${error instanceof Error ? error.message : String(error)}`), { data: "0x" });
+
+	const handle = async (method: string, params: unknown[]): Promise<unknown> => {
+		switch (method) {
+			case "eth_requestAccounts":
+				authorized = true;
+				return [...accounts];
+			case "eth_accounts":
+				return authorized ? [...accounts] : [];
+			case "wallet_requestPermissions":
+				authorized = true;
+				return [{ parentCapability: "eth_accounts" }];
+			case "eth_chainId":
+				return chainId;
+			case "net_version":
+				return BigInt(chainId).toString();
+			case "eth_blockNumber":
+				return ethers.toQuantity(latestBlock().number);
+			case "eth_gasPrice":
+				return ethers.toQuantity(gasPrice);
+			case "eth_maxPriorityFeePerGas":
+				return ethers.toQuantity(gasPrice);
+			case "eth_getBalance":
+				return ethers.toQuantity(balances.get(toKey(params[0])) ?? 0n);
+			case "eth_getCode":
+				return tokens.has(toKey(params[0])) || contracts.has(toKey(params[0])) ? "0x60806040" : "0x";
+			case "eth_getTransactionCount":
+				return ethers.toQuantity(nextNonce(String(params[0]), params[1] === "pending"));
+			case "eth_getBlockByNumber":
+			case "eth_getBlockByHash": {
+				const block = findBlock(params[0]);
+				return block ? formatBlock(block, params[1] === true) : null;
+			}
+			case "eth_getTransactionByHash": {
+				const item = transactions.get(toKey(params[0]));
+				return item ? formatTransaction(item) : null;
+			}
+			case "eth_getTransactionReceipt": {
+				const item = transactions.get(toKey(params[0]));
+				if (!item?.block || !item.receipt) return null;
+				const hash = item.tx.hash!;
+				const logIndex = blockLogs(item.block).findIndex(log => log.hash === hash);
+				return {
+					transactionHash: hash,
+					transactionIndex: ethers.toQuantity(item.index),
+					blockHash: item.block.hash,
+					blockNumber: ethers.toQuantity(item.block.number),
+					from: ethers.getAddress(item.from),
+					to: item.tx.to,
+					contractAddress: null,
+					cumulativeGasUsed: ethers.toQuantity(item.receipt.gasUsed),
+					gasUsed: ethers.toQuantity(item.receipt.gasUsed),
+					effectiveGasPrice: ethers.toQuantity(item.receipt.effectiveGasPrice),
+					logs: item.receipt.logs.map((log, index) => formatLog({ ...log, hash, transactionIndex: item.index }, item.block!, logIndex + index)),
+					logsBloom: ethers.zeroPadValue("0x", 256),
+					status: ethers.toQuantity(item.receipt.status),
+					type: ethers.toQuantity(item.tx.type ?? 0),
+				};
+			}
+			case "eth_getLogs": {
+				const filter = (params[0] ?? {}) as { address?: string | string[]; topics?: (string | string[] | null)[]; fromBlock?: string; toBlock?: string };
+				const from = findBlock(filter.fromBlock ?? "latest")?.number ?? 0;
+				const to = findBlock(filter.toBlock ?? "latest")?.number ?? latestBlock().number;
+				const addresses = filter.address === undefined ? null : [filter.address].flat().map(toKey);
+				const matchesTopics = (topics: string[]) => (filter.topics ?? []).every((expected, index) => {
+					if (expected === null) return true;
+					return [expected].flat().some(topic => toKey(topic) === toKey(topics[index]));
+				});
+				return blocks.slice(from, to + 1).flatMap(block => blockLogs(block)
+					.map((log, index) => ({ log, index }))
+					.filter(({ log }) => (!addresses || addresses.includes(toKey(log.address))) && matchesTopics(log.topics))
+					.map(({ log, index }) => formatLog(log, block, index)));
+			}
+			case "eth_call": {
+				const { from, to, data, value } = callParams(params);
+				if (!to) return "0x";
+				try {
+					return execute(from, to, data, value, true).result;
+				} catch (error) {
+					if (error instanceof Revert) throw revertError(error);
+					throw error;
+				}
+			}
+			case "eth_estimateGas": {
+				const { from, to, data, value } = callParams(params);
+				if (from && (balances.get(from) ?? 0n) < value) {
+					throw rpcError(-32000, "insufficient funds for transfer");
+				}
+				if (!to) return ethers.toQuantity(GAS_CALL);
+				try {
+					execute(from, to, data, value, true);
+				} catch (error) {
+					if (error instanceof Revert) throw revertError(error);
+					throw error;
+				}
+				return ethers.toQuantity(data === "0x" ? GAS_NATIVE : GAS_CALL);
+			}
+			case "wallet_switchEthereumChain": {
+				const { chainId: target } = params[0] as { chainId: string };
+				if (!chains.has(ethers.toQuantity(target))) {
+					throw rpcError(4902, `Unrecognized chain ID "${target}". Try adding the chain using wallet_addEthereumChain first.`);
+				}
+				setChain(target);
+				return null;
+			}
+			case "wallet_addEthereumChain": {
+				const { chainId: target } = params[0] as { chainId: string };
+				chains.add(ethers.toQuantity(target));
+				setChain(target);
+				return null;
+			}
+			case "personal_sign": {
+				const [message, address] = params as [string, string];
+				const signer = requireSigner(address);
+				return signer.signMessage(ethers.isHexString(message) ? ethers.getBytes(message) : message);
+			}
+			case "eth_signTypedData_v4": {
+				const [address, json] = params as [string, string];
+				const signer = requireSigner(address);
+				const { domain, types, message } = JSON.parse(json);
+				// ethers 会自动推导 EIP712Domain，传入会报错
+				delete types.EIP712Domain;
+				return signer.signTypedData(domain, types, message);
+			}
+			case "eth_sendTransaction": {
+				const request = params[0] as Record<string, string | undefined>;
+				const signer = requireSigner(request.from);
+				const from = toKey(request.from);
+				const gasLimit = toBigInt(request.gas ?? request.gasLimit, GAS_CALL);
+				const maxFeePerGas = request.maxFeePerGas !== undefined ? toBigInt(request.maxFeePerGas) : request.gasPrice !== undefined ? null : gasPrice * 2n;
+				const value = toBigInt(request.value);
+				const tx = ethers.Transaction.from({
+					to: request.to ?? null,
+					value,
+					data: request.data ?? request.input ?? "0x",
+					nonce: request.nonce !== undefined ? Number(request.nonce) : nextNonce(from, true),
+					gasLimit,
+					chainId: BigInt(chainId),
+					...(maxFeePerGas !== null
+						? { type: 2, maxFeePerGas, maxPriorityFeePerGas: toBigInt(request.maxPriorityFeePerGas, gasPrice) }
+						: { type: 0, gasPrice: toBigInt(request.gasPrice) }),
+				});
+				if ((balances.get(from) ?? 0n) < value + gasLimit * (tx.maxFeePerGas ?? tx.gasPrice ?? 0n)) {
+					throw rpcError(-32000, "insufficient funds for gas * price + value");
+				}
+				tx.signature = signer.signingKey.sign(tx.unsignedHash);
+
+				// 相同 nonce 的待处理交易被替换（加速或取消）
+				pool = pool.filter(hash => {
+					const pending = transactions.get(hash)!;
+					return !(pending.from === from && pending.tx.nonce === tx.nonce);
+				});
+				const hash = tx.hash!;
+				transactions.set(hash, { tx, from, block: null, index: 0, receipt: null });
+				pool.push(hash);
+				sentTransactions.push(request);
+				if (automine) mineBlock();
+				return hash;
+			}
+			default:
+				throw rpcError(4200, `The mock provider does not support ${method}`);
+		}
+	};
+
+	return {
+		isMetaMask: options.isMetaMask,
+		get accounts() {
+			return [...accounts];
+		},
+		get chainId() {
+			return chainId;
+		},
+		get authorized() {
+			return authorized;
+		},
+		get blockNumber() {
+			return latestBlock().number;
+		},
+		requests,
+		sentTransactions,
+		request: async <T,>({ method, params }: RequestArguments) => {
+			const list = Array.isArray(params) ? params : params === undefined ? [] : [params];
+			requests.push({ method, params: list });
+			const error = takeScripted(method);
+			if (error) {
+				throw rpcError(error.code, error.message ?? "User rejected the request.");
+			}
+			const handler = handlers[method];
+			return (await (handler ? handler(list) : handle(method, list))) as T;
+		},
+		on: (event, listener) => {
+			if (!listeners.has(event)) listeners.set(event, new Set());
+			listeners.get(event)!.add(listener);
+		},
+		removeListener: (event, listener) => {
+			listeners.get(event)?.delete(listener);
+		},
+		rejectNext: (method) => {
+			scripted.push({ method, error: { code: 4001, message: "User rejected the request." } });
+		},
+		failNext: (method, error) => {
+			scripted.push({ method, error });
+		},
+		setAccounts: (next) => {
+			accounts = next.map(account => ethers.getAddress(account));
+			emit("accountsChanged", authorized ? [...accounts] : []);
+		},
+		switchAccount: (indexOrAddress) => {
+			const target = typeof indexOrAddress === "number"
+				? accounts[indexOrAddress]
+				: accounts.find(account => toKey(account) === toKey(indexOrAddress));
+			if (!target) throw new Error(`未知账户: ${indexOrAddress}`);
+			// 钱包把当前账户放在第一位
+			accounts = [target, ...accounts.filter(account => account !== target)];
+			emit("accountsChanged", authorized ? [...accounts] : []);
+		},
+		setChain: (next) => {
+			chains.add(ethers.toQuantity(next));
+			setChain(next);
+		},
+		addChain: (next) => {
+			chains.add(ethers.toQuantity(next));
+		},
+		setBalance: (address, balance) => {
+			balances.set(toKey(address), balance);
+		},
+		getBalance: (address) => balances.get(toKey(address)) ?? 0n,
+		setTokenBalance: (token, owner, balance) => {
+			requireToken(token).balances.set(toKey(owner), balance);
+		},
+		getTokenBalance: (token, owner) => requireToken(token).balances.get(toKey(owner)) ?? 0n,
+		getAllowance: (token, owner, spender) => requireToken(token).allowances.get(`${toKey(owner)}:${toKey(spender)}`) ?? 0n,
+		mine: (count = 1) => {
+			for (let index = 0; index < count; index++) mineBlock();
+		},
+		setAutomine: (value) => {
+			automine = value;
+		},
+		emitConnect: () => emit("connect", { chainId }),
+		emitDisconnect: (error = { code: 4900, message: "Disconnected" }) => {
+			emit("disconnect", rpcError(error.code, error.message ?? "Disconnected"));
+		},
+		emitMessage: (type, data) => emit("message", { type, data }),
+		revoke: () => {
+			authorized = false;
+			emit("accountsChanged", []);
+		},
+	};
+};
@@ -0,0 +1,88 @@
+import { ethers } from "ethers";
+
+// ERC-20 代币信息
+export interface TokenInfo {
+	chainId: string; // 十六进制，例如 0x1
+	address: string;
+	symbol: string;
+	name: string;
+	decimals: number;
+	logoURI?: string;
+}
+
+export const ERC20_ABI = [
+	"function name() view returns (string)",
+	"function symbol() view returns (string)",
+	"function decimals() view returns (uint8)",
+	"function balanceOf(address owner) view returns (uint256)",
+	"function transfer(address to, uint256 amount) returns (bool)",
+	"function allowance(address owner, address spender) view returns (uint256)",
+	"function approve(address spender, uint256 amount) returns (bool)",
+	"event Transfer(address indexed from, address indexed to, uint256 value)",
+	"event Approval(address indexed owner, address indexed spender, uint256 value)",
+];
+
+// 内置代币列表，按 chainId 分组
+export const DEFAULT_TOKENS: Record<string, TokenInfo[]> = {
+	"0x1": [
+		{ chainId: "0x1", address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", symbol: "USDC", name: "USD Coin", decimals: 6 },
+		{ chainId: "0x1", address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", symbol: "USDT", name: "Tether USD", decimals: 6 },
+		{ chainId: "0x1", address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", symbol: "DAI", name: "Dai Stablecoin", decimals: 18 },
+	],
+	"0x38": [
+		{ chainId: "0x38", address: "0x55d398326f99059fF775485246999027B3197955", symbol: "USDT", name: "Tether USD", decimals: 18 },
+		{ chainId: "0x38", address: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d", symbol: "USDC", name: "USD Coin", decimals: 18 },
+	],
+	"0xa4b1": [
+		{ chainId: "0xa4b1", address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", symbol: "USDC", name: "USD Coin", decimals: 6 },
+	],
+	"0x2105": [
+		{ chainId: "0x2105", address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", symbol: "USDC", name: "USD Coin", decimals: 6 },
+	],
+	"0x89": [
+		{ chainId: "0x89", address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", symbol: "USDC", name: "USD Coin", decimals: 6 },
+	],
+};
+
+// 合并多个代币列表，同一链上相同地址只保留第一个
+export const mergeTokenLists = (...lists: TokenInfo[][]) => {
+	const seen = new Set<string>();
+	return lists.flat().filter(token => {
+		const key = `${token.chainId}:${token.address.toLowerCase()}`;
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+};
+
+// 从链上读取代币的 symbol / name / decimals
+export const fetchTokenInfo = async (provider: ethers.Provider, chainId: string, address: string): Promise<TokenInfo> => {
+	const contract = new ethers.Contract(address, ERC20_ABI, provider);
+	const [symbol, name, decimals] = await Promise.all([
+		contract.symbol() as Promise<string>,
+		contract.name() as Promise<string>,
+		contract.decimals() as Promise<bigint>,
+	]);
+	return {
+		chainId,
+		address: ethers.getAddress(address),
+		symbol,
+		name,
+		decimals: Number(decimals),
+	};
+};
+
+// 批量查询代币余额，返回以小写合约地址为 key 的格式化余额，单个代币失败时跳过
+export const fetchTokenBalances = async (provider: ethers.Provider, owner: string, tokens: TokenInfo[]) => {
+	const entries = await Promise.all(tokens.map(async (token) => {
+		try {
+			const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+			const balance: bigint = await contract.balanceOf(owner);
+			return [token.address.toLowerCase(), ethers.formatUnits(balance, token.decimals)] as const;
+		} catch (error) {
+			console.error(`获取 ${token.symbol} 余额失败:`, error);
+			return null;
+		}
+	}));
+	return Object.fromEntries(entries.filter(entry => entry !== null));
+};
@@ -0,0 +1,71 @@
+import { ethers } from "ethers";
+import { ERC20_ABI, type TokenInfo } from "../tokens";
+import type { EnsResolver } from "../ens";
+
+// 转账参数
+export interface SendTransactionParams {
+	to: string; // 收款地址或 ENS 名称
+	amount: string; // 十进制数量，例如 "0.1"
+	token?: string; // ERC-20 合约地址，为空时发送原生币
+}
+
+// EIP-1559 手续费预估
+export interface FeeEstimate {
+	gasLimit: bigint;
+	maxFeePerGas: bigint | null;
+	maxPriorityFeePerGas: bigint | null;
+	gasPrice: bigint | null; // 不支持 EIP-1559 的网络使用 gasPrice
+	fee: string; // 按最高单价计算的手续费（原生币，已格式化）
+}
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+// 解析收款地址，支持 ENS 名称，无法解析时返回 null
+export const resolveRecipient = async (ens: EnsResolver, to: string) => {
+	const value = to.trim();
+	if (ethers.isAddress(value)) {
+		return ethers.getAddress(value);
+	}
+	return ens.resolveName(value);
+};
+
+// 解析转账数量：代币传入代币精度，原生币与余额、手续费一样按 wei（18 位小数），格式错误时抛出
+export const parseTransferAmount = (amount: string, decimals = 18) => {
+	return ethers.parseUnits(amount, decimals);
+};
+
+// 构造原生币或 ERC-20 转账交易，value 为最小单位的数量
+export const buildTransferRequest = (
+	from: string,
+	to: string,
+	value: bigint,
+	token?: TokenInfo,
+): ethers.TransactionRequest => {
+	if (token) {
+		return {
+			from,
+			to: token.address,
+			data: erc20Interface.encodeFunctionData("transfer", [to, value]),
+		};
+	}
+	return { from, to, value };
+};
+
+// 预估 gas 和手续费
+export const estimateFees = async (provider: ethers.Provider, request: ethers.TransactionRequest): Promise<FeeEstimate> => {
+	const [gasLimit, feeData] = await Promise.all([
+		provider.estimateGas(request),
+		provider.getFeeData(),
+	]);
+
+	const { maxFeePerGas, maxPriorityFeePerGas, gasPrice } = feeData;
+	const unitPrice = maxFeePerGas ?? gasPrice ?? 0n;
+
+	return {
+		gasLimit,
+		maxFeePerGas,
+		maxPriorityFeePerGas,
+		gasPrice: maxFeePerGas ? null : gasPrice,
+		fee: ethers.formatEther(gasLimit * unitPrice),
+	};
+};
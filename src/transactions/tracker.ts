@@ -0,0 +1,91 @@
+import { ethers } from "ethers";
+
+export type TransactionStatus = "pending" | "confirmed" | "failed" | "replaced" | "cancelled";
+
+// 已提交并被追踪的交易
+export interface TrackedTransaction {
+	hash: string;
+	chainId: string;
+	from: string;
+	nonce: number;
+	to: string | null;
+	value: string; // wei，十进制字符串
+	description?: string;
+	status: TransactionStatus;
+	confirmations: number;
+	startBlock: number; // 提交时的区块高度，用于查找替换交易
+	blockNumber?: number;
+	replacedBy?: string; // 被加速或取消时的新交易哈希
+	submittedAt: number;
+	updatedAt: number;
+}
+
+// 单次轮询最多向前扫描的区块数
+const MAX_SCAN_BLOCKS = 50;
+
+// 相同 nonce 的交易已上链时，扫描区块找出替换交易
+// 发给自己且金额为 0 的视为取消，否则视为加速
+const findReplacement = async (provider: ethers.Provider, tx: TrackedTransaction) => {
+	const latest = await provider.getBlockNumber();
+	const from = Math.max(tx.startBlock, latest - MAX_SCAN_BLOCKS);
+	const sender = tx.from.toLowerCase();
+	const hash = tx.hash.toLowerCase();
+
+	for (let blockNumber = latest; blockNumber >= from; blockNumber--) {
+		const block = await provider.getBlock(blockNumber, true);
+		const replacement = block?.prefetchedTransactions.find(
+			item => item.from.toLowerCase() === sender && item.nonce === tx.nonce && item.hash.toLowerCase() !== hash
+		);
+		if (replacement) {
+			const isCancel = replacement.to?.toLowerCase() === sender && replacement.value === 0n;
+			return {
+				status: (isCancel ? "cancelled" : "replaced") as TransactionStatus,
+				replacedBy: replacement.hash,
+				blockNumber: replacement.blockNumber ?? blockNumber,
+			};
+		}
+	}
+	return { status: "replaced" as TransactionStatus };
+};
+
+// 根据回执计算状态，确认数没有变化时返回 null
+const fromReceipt = async (
+	receipt: ethers.TransactionReceipt,
+	tx: TrackedTransaction,
+	requiredConfirmations: number,
+): Promise<Partial<TrackedTransaction> | null> => {
+	const confirmations = await receipt.confirmations();
+	if (receipt.status === 0) {
+		return { status: "failed", confirmations, blockNumber: receipt.blockNumber, updatedAt: Date.now() };
+	}
+	if (confirmations === tx.confirmations) return null;
+	return {
+		status: confirmations >= requiredConfirmations ? "confirmed" : "pending",
+		confirmations,
+		blockNumber: receipt.blockNumber,
+		updatedAt: Date.now(),
+	};
+};
+
+// 检查一笔待确认交易的最新状态，没有变化时返回 null
+export const checkTransaction = async (
+	provider: ethers.Provider,
+	tx: TrackedTransaction,
+	requiredConfirmations: number,
+): Promise<Partial<TrackedTransaction> | null> => {
+	const receipt = await provider.getTransactionReceipt(tx.hash);
+	if (receipt) {
+		return fromReceipt(receipt, tx, requiredConfirmations);
+	}
+
+	// 没有回执但账户 nonce 已经超过这笔交易，说明被同 nonce 的交易替换了
+	const latestNonce = await provider.getTransactionCount(tx.from, "latest");
+	if (latestNonce > tx.nonce) {
+		// 交易可能恰好在两次查询之间上链：ethers 会在 250ms 内复用相同请求的结果，
+		// 再查回执会拿到缓存的 null，改为查询交易本身，已打包时等下次轮询读取回执
+		const mined = await provider.getTransaction(tx.hash);
+		if (mined?.blockNumber != null) return null;
+		return { ...(await findReplacement(provider, tx)), updatedAt: Date.now() };
+	}
+	return null;
+};
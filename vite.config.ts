@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 import dts from "vite-plugin-dts";
@@ -7,15 +8,20 @@ export default defineConfig({
   plugins: [react(), 
     dts({
       insertTypesEntry: true, // 会自动生成 index.d.ts 并在 package.json 添加 "types"
-      tsconfigPath: 'tsconfig.app.json'
+      tsconfigPath: 'tsconfig.app.json',
+      exclude: ["src/**/*.test.ts", "src/**/*.test.tsx"] // 测试文件不生成类型声明
     }),
   ],
   build: {
     lib: {
-      entry: "src/index.ts",
+      // 测试工具单独作为 wtf-lll-wallet/testing 入口，不进入主包
+      entry: {
+        index: "src/index.ts",
+        testing: "src/testing/index.ts"
+      },
       name: "wtf-lll-wallet",
       formats: ["es"],
-      fileName: (format) => `wtf-lll-wallet.${format}.js`
+      fileName: (format, entryName) => entryName === "index" ? `wtf-lll-wallet.${format}.js` : `${entryName}.${format}.js`
     },
     rollupOptions: {
       external: ["react", "react-dom"], // 避免打包 react
@@ -26,5 +32,8 @@ export default defineConfig({
         }
       }
     }
+  },
+  test: {
+    environment: "happy-dom"
   }
 });
\ No newline at end of file